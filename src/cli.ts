@@ -3,8 +3,34 @@
 /**
  * CLI Entry Point for KAMIYO x402 MCP Server
  *
- * This file serves as the command-line entry point for the MCP server.
- * It simply imports and runs the main server from index.ts.
+ * Without a command this runs the MCP server from index.ts. Commands:
+ *
+ *   kamiyo-mcp report [options]   Export a spending report (CSV or JSON)
+ *   kamiyo-mcp keys <command>     Manage encrypted agent keystores
  */
 
-import './index.js';
+import dotenv from 'dotenv';
+
+const [command, ...args] = process.argv.slice(2);
+
+if (command === 'report') {
+  dotenv.config();
+  const { runReport } = await import('./commands/report.js');
+  try {
+    await runReport(args);
+  } catch (error: any) {
+    console.error(`kamiyo-mcp report: ${error.message}`);
+    process.exit(1);
+  }
+} else if (command === 'keys') {
+  dotenv.config();
+  const { runKeys } = await import('./commands/keys.js');
+  try {
+    await runKeys(args);
+  } catch (error: any) {
+    console.error(`kamiyo-mcp keys: ${error.message}`);
+    process.exit(1);
+  }
+} else {
+  await import('./index.js');
+}
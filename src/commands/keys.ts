@@ -0,0 +1,177 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Keypair } from '@solana/web3.js';
+import { parseArgs } from 'util';
+import {
+  decryptKeystore,
+  DEFAULT_KEYSTORE_DIR,
+  encryptKeystore,
+  keystorePath,
+  listKeystores,
+  readKeystore,
+  readPassphrase,
+  writeKeystore,
+} from '../signers/index.js';
+import { loadKeypair } from '../solana/client.js';
+
+const USAGE = `Usage: kamiyo-mcp keys <command> [options]
+
+Manage passphrase-encrypted agent keystores.
+
+Commands:
+  generate <name>               Create a keystore with a new keypair
+  import <name> <keypair>       Encrypt a keypair file (solana-keygen JSON or base58)
+  export-pubkey <name>          Print a keystore's public key
+  rotate <name>                 Replace a keystore's keypair; the old keystore is kept in retired/
+  list                          List keystores
+
+Options:
+  --dir <dir>                     Keystore directory (default: KEYSTORE_DIR or ~/.kamiyo-mcp/keys)
+  --passphrase-file <file>        Read the passphrase from a file instead of prompting
+  --new-passphrase-file <file>    rotate: read the new passphrase from a file
+  --keep-key                      rotate: keep the keypair, only change the passphrase
+  --json                          list: print JSON
+`;
+
+// Keystore names become file names
+const NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/;
+
+/**
+ * kamiyo-mcp keys
+ *
+ * Names resolve to <dir>/<name>.json; set AGENT_KEYSTORE to the name (or
+ * path) to have the server unlock it at startup.
+ */
+export async function runKeys(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      dir: { type: 'string' },
+      'passphrase-file': { type: 'string' },
+      'new-passphrase-file': { type: 'string' },
+      'keep-key': { type: 'boolean' },
+      json: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [command, name, source] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const dir = values.dir || process.env.KEYSTORE_DIR || DEFAULT_KEYSTORE_DIR;
+
+  if (command === 'list') {
+    const keystores = listKeystores(dir);
+    if (values.json) {
+      process.stdout.write(JSON.stringify(keystores, null, 2) + '\n');
+    } else if (keystores.length === 0) {
+      process.stdout.write(`No keystores in ${dir}\n`);
+    } else {
+      for (const keystore of keystores) {
+        const created = keystore.createdAt ? new Date(keystore.createdAt * 1000).toISOString() : '';
+        process.stdout.write(`${keystore.name}\t${keystore.publicKey ?? `(invalid: ${keystore.error})`}\t${created}\n`);
+      }
+    }
+    return;
+  }
+
+  if (!name) {
+    throw new Error(`${command} needs a keystore name`);
+  }
+  const file = keystorePath(name, dir);
+
+  switch (command) {
+    case 'generate': {
+      assertNew(name, file);
+      const keypair = Keypair.generate();
+      const passphrase = await readPassphrase({
+        file: values['passphrase-file'],
+        prompt: `New passphrase for ${name}: `,
+        confirm: true,
+      });
+      writeKeystore(file, await encryptKeystore(keypair, passphrase));
+      report(`Created ${file}`, keypair);
+      return;
+    }
+
+    case 'import': {
+      if (!source) {
+        throw new Error('import needs a keypair file (solana-keygen JSON or base58)');
+      }
+      assertNew(name, file);
+      const keypair = readPlaintextKeypair(source);
+      const passphrase = await readPassphrase({
+        file: values['passphrase-file'],
+        prompt: `New passphrase for ${name}: `,
+        confirm: true,
+      });
+      writeKeystore(file, await encryptKeystore(keypair, passphrase));
+      report(`Imported into ${file}. Delete ${source} once you've checked the keystore unlocks.`, keypair);
+      return;
+    }
+
+    case 'export-pubkey': {
+      process.stdout.write(readKeystore(file).publicKey + '\n');
+      return;
+    }
+
+    case 'rotate': {
+      const current = readKeystore(file);
+      const passphrase = await readPassphrase({
+        file: values['passphrase-file'],
+        prompt: `Current passphrase for ${name}: `,
+      });
+      const oldKeypair = await decryptKeystore(current, passphrase);
+      const newPassphrase = await readPassphrase({
+        file: values['new-passphrase-file'],
+        prompt: `New passphrase for ${name}: `,
+        confirm: true,
+      });
+
+      if (values['keep-key']) {
+        writeKeystore(file, await encryptKeystore(oldKeypair, newPassphrase));
+        report(`Re-encrypted ${file} under the new passphrase`, oldKeypair);
+        return;
+      }
+
+      // The old key may still own escrows and funds, so it's retired rather than deleted
+      const retired = path.join(path.dirname(file), 'retired', `${name}-${current.publicKey}.json`);
+      writeKeystore(retired, current);
+      const keypair = Keypair.generate();
+      writeKeystore(file, await encryptKeystore(keypair, newPassphrase));
+      report(
+        `Rotated ${file}. The old key ${current.publicKey} is in ${retired} (old passphrase); ` +
+          'settle its open escrows and move its funds to the new key.',
+        keypair
+      );
+      return;
+    }
+
+    default:
+      throw new Error(`Unknown command "${command}" (see kamiyo-mcp keys --help)`);
+  }
+}
+
+function assertNew(name: string, file: string): void {
+  if (!NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid keystore name "${name}" (letters, digits, '.', '_' and '-')`);
+  }
+  if (fs.existsSync(file)) {
+    throw new Error(`${file} already exists (use rotate to replace its key)`);
+  }
+}
+
+// solana-keygen JSON files, or a file holding a base58 secret key
+function readPlaintextKeypair(source: string): Keypair {
+  const content = fs.readFileSync(source, 'utf-8').trim();
+  return content.startsWith('[') ? Keypair.fromSecretKey(new Uint8Array(JSON.parse(content))) : loadKeypair(content);
+}
+
+function report(message: string, keypair: Keypair): void {
+  process.stderr.write(message + '\n');
+  process.stdout.write(keypair.publicKey.toBase58() + '\n');
+}
@@ -0,0 +1,101 @@
+import * as fs from 'fs';
+import { PublicKey } from '@solana/web3.js';
+import { parseArgs } from 'util';
+import { loadAgentIdentities } from '../identities/index.js';
+import { DEFAULT_LEDGER_PATH, Ledger } from '../ledger/index.js';
+import { X402Program } from '../solana/anchor.js';
+import { SolanaClient } from '../solana/client.js';
+import { parseRpcEndpoints } from '../solana/rpc.js';
+import { ReportInterval, spendingReport } from '../tools/report.js';
+
+const USAGE = `Usage: kamiyo-mcp report [options]
+
+Spending per API provider from the local ledger and on-chain escrows.
+
+Options:
+  --from <date>        Escrows created at or after (ISO date or Unix timestamp)
+  --to <date>          Escrows created before (ISO date or Unix timestamp)
+  --provider <pubkey>  Only escrows paying this provider
+  --interval <period>  Split rows by day, week or month
+  --format <format>    csv or json (default: csv)
+  --output <file>      Write to a file instead of stdout
+  --agent <name>       Agent identity to report on (default: the default identity)
+`;
+
+/**
+ * kamiyo-mcp report
+ *
+ * Reads the same environment as the server (X402_PROGRAM_ID, agent key or
+ * AGENT_IDENTITIES, SOLANA_RPC_URL, LEDGER_PATH).
+ */
+export async function runReport(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      provider: { type: 'string' },
+      interval: { type: 'string' },
+      format: { type: 'string', default: 'csv' },
+      output: { type: 'string' },
+      agent: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  if (values.interval && !['day', 'week', 'month'].includes(values.interval)) {
+    throw new Error('--interval must be day, week or month');
+  }
+  if (values.format !== 'csv' && values.format !== 'json') {
+    throw new Error('--format must be csv or json');
+  }
+
+  const programIdStr = process.env.X402_PROGRAM_ID;
+  if (!programIdStr) {
+    throw new Error('X402_PROGRAM_ID environment variable is required');
+  }
+
+  const [{ signer }] = await loadAgentIdentities(process.env, values.agent);
+  const rpcUrls = process.env.SOLANA_RPC_URLS || process.env.SOLANA_RPC_URL || 'https://api.devnet.solana.com';
+  const client = new SolanaClient({ read: parseRpcEndpoints(rpcUrls) }, signer);
+  const program = new X402Program(client.connection, signer, new PublicKey(programIdStr));
+  const ledger = new Ledger(process.env.LEDGER_PATH || DEFAULT_LEDGER_PATH);
+
+  const report = await spendingReport(
+    {
+      apiProvider: values.provider,
+      from: values.from ? parseTime(values.from, '--from') : undefined,
+      to: values.to ? parseTime(values.to, '--to') : undefined,
+      interval: values.interval as ReportInterval | undefined,
+      format: values.format,
+    },
+    program,
+    ledger
+  );
+
+  if (!report.success) {
+    throw new Error(report.error);
+  }
+
+  const output = values.format === 'csv' ? report.csv! : JSON.stringify(report, null, 2) + '\n';
+
+  if (values.output) {
+    fs.writeFileSync(values.output, output);
+    console.error(`Wrote ${report.rows!.length} rows to ${values.output}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+function parseTime(value: string, option: string): number {
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value) / 1000;
+  if (!Number.isFinite(time)) {
+    throw new Error(`${option} must be an ISO date or Unix timestamp`);
+  }
+  return Math.floor(time);
+}
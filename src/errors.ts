@@ -0,0 +1,444 @@
+import { X402_IDL } from './idl/index.js';
+
+/**
+ * Error taxonomy shared by all tools
+ *
+ * Program errors are generated from the x402Resolve IDL (codes 6000+);
+ * the remaining codes cover failures outside the program. Every error
+ * carries a stable code, whether retrying can help, and a remediation
+ * hint, so agents can branch on the code instead of parsing messages.
+ */
+
+export type ErrorCategory =
+  | 'program' // Rejected by the x402Resolve program
+  | 'validation' // Bad tool arguments or unsupported request
+  | 'insufficient_funds' // Wallet can't cover amount + fees
+  | 'not_found' // Account or escrow doesn't exist
+  | 'rpc' // RPC node error or transaction not landed
+  | 'network' // Connection failure or timeout
+  | 'external' // Verifier oracle or paid API failed
+  | 'configuration' // Server setting missing
+  | 'policy' // Blocked by the spending or trust policy
+  | 'internal';
+
+export interface ErrorDefinition {
+  code: string;
+  category: ErrorCategory;
+  retryable: boolean;
+  remediation: string;
+  message: string; // Default message
+  programCode?: number; // Anchor error number for program errors
+}
+
+interface IdlError {
+  code: number;
+  name: string;
+  msg: string;
+}
+
+/**
+ * Retry behaviour and remediation for program errors, keyed by IDL name.
+ * IDL errors without an entry still get a generated definition.
+ */
+const PROGRAM_ERROR_HINTS: Record<string, { retryable?: boolean; remediation: string }> = {
+  InvalidStatus: {
+    remediation: 'Check the escrow with check_escrow_status; it may already be released, disputed or resolved.',
+  },
+  Unauthorized: {
+    remediation: 'Only the agent that created the escrow can do this before it expires. Use that agent wallet.',
+  },
+  InvalidQualityScore: { remediation: 'Pass a quality score between 0 and 100.' },
+  InvalidRefundPercentage: { remediation: 'Pass a refund percentage between 0 and 100.' },
+  InvalidSignature: {
+    remediation: 'The verifier signature was rejected. Check that the verifier key is the one trusted on-chain.',
+  },
+  InvalidTimeLock: { remediation: 'Use a time lock between 3600 (1 hour) and 2592000 (30 days) seconds.' },
+  InvalidAmount: { remediation: 'Pass an amount greater than 0.' },
+  InvalidTransactionId: { remediation: 'Use a non-empty transaction ID of at most 64 characters.' },
+  TimeLockNotExpired: {
+    retryable: true,
+    remediation: 'Wait until the escrow expires, or release it from the agent wallet that created it.',
+  },
+  DisputeWindowExpired: {
+    remediation: 'The time lock has passed, so the escrow can no longer be disputed. Release it instead.',
+  },
+  AmountTooLarge: { remediation: 'Split the payment or lower the amount below the program maximum.' },
+  InsufficientDisputeFunds: { remediation: 'Fund the agent wallet to cover the dispute cost, then file again.' },
+  RateLimitExceeded: {
+    retryable: true,
+    remediation: 'Wait for the rate limit window to reset (see get_rate_limit_status) or raise the verification level.',
+  },
+  ProviderSuspended: {
+    remediation: 'Pick another provider, or wait for the suspension to end (see get_provider_penalties).',
+  },
+  ReputationTooLow: { remediation: 'Pick a provider with a better reputation (see get_api_reputation).' },
+  ArithmeticOverflow: { remediation: 'Use a smaller amount.' },
+  InsufficientRentReserve: { remediation: 'The escrow account lacks rent reserve. Report this to the program operator.' },
+  InvalidSwitchboardAttestation: {
+    remediation:
+      'Check that switchboardFunction points at the quality oracle function and that it has run for this transaction.',
+  },
+  StaleAttestation: {
+    retryable: true,
+    remediation: 'Trigger the Switchboard function again and resubmit right after it completes (within 60 seconds).',
+  },
+  QualityScoreMismatch: {
+    remediation:
+      'Resubmit with the score the Switchboard function computed, or resolve with the verifier strategy.',
+  },
+};
+
+const PROGRAM_ERRORS: ErrorDefinition[] = ((X402_IDL.errors || []) as IdlError[]).map((error) => ({
+  code: error.name,
+  category: 'program',
+  retryable: PROGRAM_ERROR_HINTS[error.name]?.retryable ?? false,
+  remediation: PROGRAM_ERROR_HINTS[error.name]?.remediation ?? `Program rejected the transaction: ${error.msg}.`,
+  message: error.msg,
+  programCode: error.code,
+}));
+
+const CLIENT_ERRORS: ErrorDefinition[] = [
+  {
+    code: 'ValidationError',
+    category: 'validation',
+    retryable: false,
+    remediation: 'Fix the arguments named in the error and call the tool again.',
+    message: 'Invalid arguments',
+  },
+  {
+    code: 'UnknownAgent',
+    category: 'validation',
+    retryable: false,
+    remediation: 'Pass the name or wallet address of a configured agent identity (see list_agents), or omit agent.',
+    message: 'Unknown agent identity',
+  },
+  {
+    code: 'InsufficientFunds',
+    category: 'insufficient_funds',
+    retryable: false,
+    remediation: 'Fund the agent wallet (amount plus fees and rent) or lower the amount.',
+    message: 'Insufficient funds',
+  },
+  {
+    code: 'AccountNotFound',
+    category: 'not_found',
+    retryable: false,
+    remediation: 'Check the transaction ID or address. Newly created escrows can take a few seconds to confirm.',
+    message: 'Account not found',
+  },
+  {
+    code: 'RpcRateLimited',
+    category: 'rpc',
+    retryable: true,
+    remediation: 'The RPC node is rate limiting requests. Back off and retry, or configure a dedicated RPC endpoint.',
+    message: 'RPC rate limit exceeded',
+  },
+  {
+    code: 'RpcError',
+    category: 'rpc',
+    retryable: true,
+    remediation: 'The RPC node returned an error. Retry, or switch SOLANA_RPC_URL if it persists.',
+    message: 'RPC request failed',
+  },
+  {
+    code: 'TransactionExpired',
+    category: 'rpc',
+    retryable: true,
+    remediation: 'The transaction did not land before its blockhash expired. Check the escrow state, then retry.',
+    message: 'Transaction expired before confirmation',
+  },
+  {
+    code: 'TransactionFailed',
+    category: 'rpc',
+    retryable: false,
+    remediation: 'The transaction landed but failed. Check the error and the escrow state before sending it again.',
+    message: 'Transaction failed on-chain',
+  },
+  {
+    code: 'TransactionUnknown',
+    category: 'rpc',
+    retryable: false,
+    remediation:
+      'Could not confirm whether the transaction landed. Look up the signature or check the escrow state before retrying, or it may run twice.',
+    message: 'Transaction outcome unknown',
+  },
+  {
+    code: 'NetworkError',
+    category: 'network',
+    retryable: true,
+    remediation: 'Could not reach the remote host. Check connectivity and retry.',
+    message: 'Network request failed',
+  },
+  {
+    code: 'VerifierError',
+    category: 'external',
+    retryable: true,
+    remediation: 'The verifier oracle failed or returned an invalid attestation. Retry, or check VERIFIER_URL.',
+    message: 'Verifier oracle failed',
+  },
+  {
+    code: 'SignerError',
+    category: 'external',
+    retryable: false,
+    remediation: 'The signer refused to sign or returned an invalid signature. Check the signing service and its key.',
+    message: 'Transaction signing failed',
+  },
+  {
+    code: 'ApiCallFailed',
+    category: 'external',
+    retryable: true,
+    remediation: 'The paid API call failed. The escrow is still open: retry the call, or dispute/release it.',
+    message: 'API call failed',
+  },
+  {
+    code: 'ConfigurationError',
+    category: 'configuration',
+    retryable: false,
+    remediation: 'Set the missing server setting (see the error) and restart the server.',
+    message: 'Server configuration incomplete',
+  },
+  {
+    code: 'PolicyDenied',
+    category: 'policy',
+    retryable: false,
+    remediation: 'The spending policy blocked this payment. Check get_budget_status for headroom, lower the amount or wait for the budget window to roll over.',
+    message: 'Blocked by spending policy',
+  },
+  {
+    code: 'ProviderNotAllowed',
+    category: 'policy',
+    retryable: false,
+    remediation: 'The trust policy does not allow paying this provider for this API (allow/deny lists or host binding). Use an allowed provider or have the operator update the policy.',
+    message: 'Provider not allowed by trust policy',
+  },
+  {
+    code: 'AgentNotPermitted',
+    category: 'policy',
+    retryable: false,
+    remediation: "This session is bound to another agent identity. Omit agent to act as the session's own identity.",
+    message: 'Session cannot act as this agent identity',
+  },
+  {
+    code: 'ApprovalRequired',
+    category: 'policy',
+    retryable: false,
+    remediation: 'The action is parked until a human approves it (actionId in details). Do not call the tool again or approve it yourself; check list_pending_actions for its status.',
+    message: 'Action needs human approval',
+  },
+  {
+    code: 'ActionRejected',
+    category: 'policy',
+    retryable: false,
+    remediation: 'A human rejected this action. Do not retry it unchanged.',
+    message: 'Action rejected by approver',
+  },
+  {
+    code: 'ApproverNotAuthorized',
+    category: 'policy',
+    retryable: false,
+    remediation: 'Only a human holding the approver token can settle parked actions. Ask the human to approve it; never guess the token.',
+    message: 'Approver token missing or wrong',
+  },
+  {
+    code: 'ActionExpired',
+    category: 'policy',
+    retryable: false,
+    remediation: 'Nobody approved the action in time. Call the tool again to park a new one if it is still needed.',
+    message: 'Pending action expired',
+  },
+  {
+    code: 'InternalError',
+    category: 'internal',
+    retryable: false,
+    remediation: 'Unexpected failure. Check the server logs.',
+    message: 'Internal error',
+  },
+];
+
+export const ERROR_CATALOG: Record<string, ErrorDefinition> = Object.fromEntries(
+  [...PROGRAM_ERRORS, ...CLIENT_ERRORS].map((definition) => [definition.code, definition])
+);
+
+const PROGRAM_ERRORS_BY_NUMBER = new Map(PROGRAM_ERRORS.map((definition) => [definition.programCode!, definition]));
+
+/**
+ * Error with a catalog code
+ */
+export class X402Error extends Error {
+  readonly code: string;
+  readonly category: ErrorCategory;
+  readonly retryable: boolean;
+  readonly remediation: string;
+  readonly programCode?: number;
+  readonly details?: Record<string, unknown>;
+
+  constructor(code: string, message?: string, options: { cause?: unknown; details?: Record<string, unknown> } = {}) {
+    const definition = ERROR_CATALOG[code] || ERROR_CATALOG.InternalError;
+    super(message || definition.message);
+    this.name = 'X402Error';
+    this.code = definition.code;
+    this.category = definition.category;
+    this.retryable = definition.retryable;
+    this.remediation = definition.remediation;
+    this.programCode = definition.programCode;
+    this.details = options.details;
+    if (options.cause !== undefined) {
+      (this as any).cause = options.cause;
+    }
+  }
+}
+
+/**
+ * Error fields of a failed tool result
+ */
+export interface ToolErrorFields {
+  error?: string;
+  code?: string;
+  category?: ErrorCategory;
+  retryable?: boolean;
+  remediation?: string;
+  programCode?: number;
+}
+
+export interface ToolFailure extends ToolErrorFields {
+  success: false;
+  error: string;
+  code: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Failed tool result for a known error code
+ */
+export function failure(code: string, message?: string, details?: Record<string, unknown>): ToolFailure {
+  return toFailure(new X402Error(code, message, { details }));
+}
+
+/**
+ * Failed tool result for a caught error
+ *
+ * @param error - Thrown error (classified if it isn't an X402Error)
+ * @param fallbackMessage - Message when the error carries none
+ * @param messages - Tool-specific messages by code (e.g. a clearer Unauthorized)
+ */
+export function toolError(
+  error: unknown,
+  fallbackMessage: string,
+  messages: Record<string, string> = {}
+): ToolFailure {
+  const classified = classifyError(error, fallbackMessage);
+  const result = toFailure(classified);
+  if (messages[classified.code]) {
+    result.error = messages[classified.code];
+  }
+  return result;
+}
+
+/**
+ * Re-raise a failed sub-step under the calling tool, keeping its code
+ */
+export function wrapFailure(failed: ToolErrorFields, context: string): ToolFailure {
+  const definition = ERROR_CATALOG[failed.code || 'InternalError'] || ERROR_CATALOG.InternalError;
+  return {
+    success: false,
+    error: `${context}: ${failed.error || definition.message}`,
+    code: definition.code,
+    category: definition.category,
+    retryable: failed.retryable ?? definition.retryable,
+    remediation: failed.remediation || definition.remediation,
+    programCode: definition.programCode,
+  };
+}
+
+/**
+ * Map any thrown error onto the catalog
+ *
+ * Program errors are matched by Anchor error number (or name), the
+ * rest by the shape of web3.js, fetch and Node errors.
+ */
+export function classifyError(error: unknown, fallbackMessage = 'Unexpected error'): X402Error {
+  if (error instanceof X402Error) {
+    return error;
+  }
+
+  const err = (error || {}) as any;
+  const message: string = err.message || (typeof error === 'string' ? error : '') || fallbackMessage;
+  const logs: string[] = err.logs || err.transactionLogs || err.error?.logs || [];
+  const text = [message, ...logs].join('\n');
+
+  const program = programErrorOf(err, text);
+  if (program) {
+    return new X402Error(program.code, program.message, { cause: error });
+  }
+
+  const status: number | undefined = err.status ?? err.statusCode ?? err.response?.status;
+  const nodeCode: string | undefined = err.code ?? err.cause?.code;
+
+  if (/insufficient (lamports|funds)|debit an account but found no record of a prior credit/i.test(text)) {
+    return new X402Error('InsufficientFunds', message, { cause: error });
+  }
+  if (/block ?height exceeded|blockhash not found|TransactionExpired/i.test(text)) {
+    return new X402Error('TransactionExpired', message, { cause: error });
+  }
+  if (status === 429 || /\b429\b|too many requests/i.test(message)) {
+    return new X402Error('RpcRateLimited', message, { cause: error });
+  }
+  if (
+    ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'ETIMEDOUT', 'EAI_AGAIN', 'UND_ERR_CONNECT_TIMEOUT'].includes(nodeCode!) ||
+    err.name === 'AbortError' ||
+    err.name === 'TimeoutError' ||
+    /fetch failed|socket hang up|network error|timed out/i.test(message)
+  ) {
+    return new X402Error('NetworkError', message, { cause: error });
+  }
+  if (/account does not exist|could not find account|account not found/i.test(message)) {
+    return new X402Error('AccountNotFound', message, { cause: error });
+  }
+  if (/invalid public key|non-base58|invalid character/i.test(message)) {
+    return new X402Error('ValidationError', message, { cause: error });
+  }
+  if ((status !== undefined && status >= 500) || err.name === 'SolanaJSONRPCError' || err.name === 'SendTransactionError') {
+    return new X402Error('RpcError', message, { cause: error });
+  }
+
+  return new X402Error('InternalError', message, { cause: error });
+}
+
+function programErrorOf(err: any, text: string): ErrorDefinition | undefined {
+  // AnchorError / ProgramError
+  const number = err.error?.errorCode?.number ?? (typeof err.code === 'number' ? err.code : undefined);
+  if (number !== undefined && PROGRAM_ERRORS_BY_NUMBER.has(number)) {
+    return PROGRAM_ERRORS_BY_NUMBER.get(number);
+  }
+
+  const name = err.error?.errorCode?.code;
+  if (name && ERROR_CATALOG[name]?.category === 'program') {
+    return ERROR_CATALOG[name];
+  }
+
+  // Simulation failures only carry the number in the message or logs
+  const hex = /custom program error: (0x[0-9a-f]+)/i.exec(text);
+  if (hex && PROGRAM_ERRORS_BY_NUMBER.has(parseInt(hex[1], 16))) {
+    return PROGRAM_ERRORS_BY_NUMBER.get(parseInt(hex[1], 16));
+  }
+
+  const decimal = /Error Number: (\d+)/.exec(text);
+  if (decimal && PROGRAM_ERRORS_BY_NUMBER.has(parseInt(decimal[1], 10))) {
+    return PROGRAM_ERRORS_BY_NUMBER.get(parseInt(decimal[1], 10));
+  }
+
+  return undefined;
+}
+
+function toFailure(error: X402Error): ToolFailure {
+  return {
+    success: false,
+    error: error.message,
+    code: error.code,
+    category: error.category,
+    retryable: error.retryable,
+    remediation: error.remediation,
+    programCode: error.programCode,
+    details: error.details,
+  };
+}
@@ -0,0 +1,372 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import * as http from 'http';
+
+/**
+ * HTTP transport for sharing one escrow server between several agents
+ *
+ * Serves the MCP streamable HTTP transport on /mcp and the legacy
+ * SSE transport on /sse + /messages. Each client session gets its own
+ * MCP Server instance. Sessions opened with an agent identity's token
+ * are bound to that identity; the rest share the server's identities.
+ */
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  authToken?: string; // Required bearer token (recommended for non-loopback hosts)
+  agentTokens?: Record<string, string>; // Bearer tokens that bind sessions to an agent identity, by identity name
+  idleTimeoutMs?: number; // Close sessions without requests for this long (default: 1800000; 0 disables)
+  createServer: (session: HttpSession) => Server; // Builds the MCP server for a new session
+  onSessionClosed?: (session: HttpSession) => void;
+}
+
+export interface HttpSession {
+  id: string;
+  kind: 'streamable' | 'sse';
+  agent?: string; // Agent identity the session is bound to
+  server?: Server;
+  transport: Transport;
+  createdAt: number;
+  lastSeenAt: number;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Running HTTP transport
+ */
+export class HttpTransportServer {
+  private httpServer: http.Server;
+  private sessions = new Map<string, HttpSession>();
+  private closed = new WeakSet<HttpSession>(); // Sessions onSessionClosed was called for
+  private idleTimer?: NodeJS.Timeout;
+  private closing = false;
+
+  constructor(private options: HttpTransportOptions) {
+    this.httpServer = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        if (res.headersSent) {
+          console.error('[HTTP] Request failed:', error);
+        } else if (error instanceof SyntaxError) {
+          sendJsonRpcError(res, 400, -32700, 'Parse error');
+        } else if (error instanceof PayloadTooLargeError) {
+          sendJsonRpcError(res, 413, -32600, error.message);
+        } else {
+          console.error('[HTTP] Request failed:', error);
+          sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+  }
+
+  /**
+   * Open sessions
+   */
+  get activeSessions(): HttpSession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * Start listening
+   */
+  listen(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off('error', reject);
+        this.startIdleSweep();
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stop accepting connections and close every session
+   */
+  async close(): Promise<void> {
+    this.closing = true;
+    clearInterval(this.idleTimer);
+
+    const stopped = new Promise<void>((resolve) => this.httpServer.close(() => resolve()));
+
+    for (const session of this.activeSessions) {
+      await session.transport.close().catch(() => {});
+    }
+
+    // Drop idle keep-alive sockets so close() can finish
+    this.httpServer.closeIdleConnections();
+    await stopped;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (this.closing) {
+      sendJsonRpcError(res, 503, -32000, 'Server is shutting down');
+      return;
+    }
+
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', sessions: this.sessions.size }));
+      return;
+    }
+
+    const auth = this.authenticate(req);
+    if (!auth) {
+      res.writeHead(401, { 'WWW-Authenticate': 'Bearer', 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32001, message: 'Unauthorized' }, id: null }));
+      return;
+    }
+
+    switch (url.pathname) {
+      case '/mcp':
+        await this.handleStreamable(req, res, auth.agent);
+        return;
+      case '/sse':
+        await this.handleSseConnect(req, res, auth.agent);
+        return;
+      case '/messages':
+        await this.handleSseMessage(req, res, url.searchParams.get('sessionId'), auth.agent);
+        return;
+      default:
+        sendJsonRpcError(res, 404, -32000, 'Not found');
+    }
+  }
+
+  /**
+   * Check the bearer token
+   *
+   * @returns The agent identity an agent token binds the session to (none
+   * for the shared token), or undefined if the request isn't authorized
+   */
+  private authenticate(req: http.IncomingMessage): { agent?: string } | undefined {
+    const header = req.headers['authorization'] || '';
+    const given = /^Bearer\s+(.+)$/i.exec(header)?.[1];
+    const agentTokens = Object.entries(this.options.agentTokens ?? {});
+
+    if (given) {
+      for (const [agent, token] of agentTokens) {
+        if (tokenEquals(given, token)) {
+          return { agent };
+        }
+      }
+    }
+
+    if (this.options.authToken) {
+      return given && tokenEquals(given, this.options.authToken) ? {} : undefined;
+    }
+
+    // With agent tokens but no shared token, every session must be bound
+    return agentTokens.length === 0 ? {} : undefined;
+  }
+
+  /**
+   * Streamable HTTP: POST for requests, GET for the notification stream,
+   * DELETE to end the session
+   */
+  private async handleStreamable(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    agent: string | undefined
+  ): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session || session.kind !== 'streamable') {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      if (session.agent !== agent) {
+        sendJsonRpcError(res, 403, -32001, 'Session belongs to another agent identity');
+        return;
+      }
+
+      session.lastSeenAt = Date.now();
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, session);
+        session.id = id;
+      },
+    });
+
+    const session: HttpSession = {
+      id: '',
+      kind: 'streamable',
+      agent,
+      transport,
+      createdAt: Date.now(),
+      lastSeenAt: Date.now(),
+    };
+
+    transport.onclose = () => this.removeSession(session);
+
+    try {
+      session.server = this.options.createServer(session);
+      await session.server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } catch (error) {
+      await this.discard(session);
+      throw error;
+    }
+
+    // The transport rejected the initialize request, so no session was opened
+    if (!session.id) {
+      await this.discard(session);
+    }
+  }
+
+  /**
+   * Legacy SSE: GET /sse opens the stream, POST /messages?sessionId= sends
+   */
+  private async handleSseConnect(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    agent: string | undefined
+  ): Promise<void> {
+    if (req.method !== 'GET') {
+      sendJsonRpcError(res, 405, -32000, 'Method not allowed');
+      return;
+    }
+
+    const transport = new SSEServerTransport('/messages', res);
+    const session: HttpSession = {
+      id: transport.sessionId,
+      kind: 'sse',
+      agent,
+      transport,
+      createdAt: Date.now(),
+      lastSeenAt: Date.now(),
+    };
+
+    this.sessions.set(session.id, session);
+    transport.onclose = () => this.removeSession(session);
+
+    try {
+      session.server = this.options.createServer(session);
+      await session.server.connect(transport);
+    } catch (error) {
+      await this.discard(session);
+      throw error;
+    }
+  }
+
+  private async handleSseMessage(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    sessionId: string | null,
+    agent: string | undefined
+  ): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || session.kind !== 'sse') {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+    if (session.agent !== agent) {
+      sendJsonRpcError(res, 403, -32001, 'Session belongs to another agent identity');
+      return;
+    }
+
+    session.lastSeenAt = Date.now();
+    const body = await readJsonBody(req);
+    await (session.transport as SSEServerTransport).handlePostMessage(req, res, body);
+  }
+
+  /**
+   * Close a session's transport and server, e.g. after a failed initialization
+   */
+  private async discard(session: HttpSession): Promise<void> {
+    await (session.server ?? session.transport).close().catch(() => {});
+    this.removeSession(session);
+  }
+
+  /**
+   * Close sessions that haven't sent a request within the idle timeout
+   */
+  private startIdleSweep(): void {
+    const timeoutMs = this.options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    if (timeoutMs <= 0) {
+      return;
+    }
+
+    this.idleTimer = setInterval(() => {
+      const cutoff = Date.now() - timeoutMs;
+      for (const session of this.activeSessions.filter((s) => s.lastSeenAt < cutoff)) {
+        console.error(`[HTTP] Closing idle session ${session.id}`);
+        this.discard(session).catch(() => {});
+      }
+    }, Math.min(timeoutMs, 60_000));
+    this.idleTimer.unref();
+  }
+
+  private removeSession(session: HttpSession): void {
+    if (this.sessions.get(session.id) === session) {
+      this.sessions.delete(session.id);
+    }
+
+    // Sessions whose server was built are reported even if they never initialized
+    if (session.server && !this.closed.has(session)) {
+      this.closed.add(session);
+      this.options.onSessionClosed?.(session);
+    }
+  }
+}
+
+/**
+ * Request body over MAX_BODY_BYTES, answered with 413
+ */
+class PayloadTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new PayloadTooLargeError(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  if (chunks.length === 0) {
+    return undefined;
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+}
+
+function tokenEquals(given: string, expected: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { formatIssues } from '../policy/config.js';
+import { loadAgentSigner, Signer } from '../signers/index.js';
+
+/**
+ * Identities file (AGENT_IDENTITIES)
+ *
+ *   {
+ *     "default": "research",
+ *     "identities": {
+ *       "research": {
+ *         "keystore": "research",
+ *         "passphraseFile": "./secrets/research.pass",
+ *         "policy": "./policies/research.json",
+ *         "authToken": "<bearer token for the HTTP transport>"
+ *       },
+ *       "trading": {
+ *         "remoteSigner": { "url": "https://signer.internal", "publicKey": "<base58>" },
+ *         "policy": "./policies/trading.json"
+ *       }
+ *     }
+ *   }
+ *
+ * Each identity names exactly one signer (keystore, keypairPath or
+ * remoteSigner). Relative paths resolve against the file's directory.
+ * Without a default, the first identity is the default.
+ */
+
+// Identity names are used as tool arguments and in notifications
+const NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/;
+
+const identitySchema = z
+  .object({
+    keystore: z.string().min(1).optional(), // Keystore name (in KEYSTORE_DIR) or path
+    passphraseFile: z.string().min(1).optional(), // Keystore passphrase (default: prompt)
+    keypairPath: z.string().min(1).optional(), // Plaintext JSON keypair
+    remoteSigner: z
+      .object({
+        url: z.string().url(),
+        publicKey: z.string().min(32),
+        apiKey: z.string().optional(),
+      })
+      .strict()
+      .optional(),
+    policy: z.string().min(1).optional(), // Policy file (default: no limits)
+    authToken: z.string().min(16).optional(), // HTTP sessions using this bearer token are bound to the identity
+  })
+  .strict()
+  .refine(
+    (identity) => [identity.keystore, identity.keypairPath, identity.remoteSigner].filter(Boolean).length === 1,
+    'Set exactly one of keystore, keypairPath or remoteSigner'
+  );
+
+const identitiesFileSchema = z
+  .object({
+    default: z.string().optional(),
+    identities: z
+      .record(z.string().regex(NAME_PATTERN, "Use letters, digits, '.', '_' and '-'"), identitySchema)
+      .refine((identities) => Object.keys(identities).length > 0, 'Configure at least one identity'),
+  })
+  .strict()
+  .refine((file) => !file.default || file.default in file.identities, {
+    message: 'Default identity is not configured',
+    path: ['default'],
+  });
+
+/**
+ * An agent identity with its signer unlocked
+ */
+export interface AgentIdentitySpec {
+  name: string;
+  signer: Signer;
+  policyPath?: string; // No limits without one
+  authToken?: string;
+}
+
+// Name of the only identity when AGENT_IDENTITIES is unset
+export const DEFAULT_IDENTITY_NAME = 'default';
+
+/**
+ * Load the agent identities configured by environment variables
+ *
+ * AGENT_IDENTITIES points at an identities file. Without one, the server
+ * has a single identity from the agent signer variables (see
+ * loadAgentSigner) and POLICY_PATH.
+ *
+ * @param only - Load just this identity (the others' signers stay locked)
+ * @returns The identities, default first
+ */
+export async function loadAgentIdentities(
+  env: NodeJS.ProcessEnv = process.env,
+  only?: string
+): Promise<AgentIdentitySpec[]> {
+  if (!env.AGENT_IDENTITIES) {
+    if (only && only !== DEFAULT_IDENTITY_NAME) {
+      throw new Error(`Unknown agent identity "${only}" (AGENT_IDENTITIES is not set)`);
+    }
+    return [{ name: DEFAULT_IDENTITY_NAME, signer: await loadAgentSigner(env), policyPath: env.POLICY_PATH }];
+  }
+
+  const file = env.AGENT_IDENTITIES;
+  const parsed = identitiesFileSchema.safeParse(JSON.parse(fs.readFileSync(file, 'utf-8')));
+  if (!parsed.success) {
+    const issues = formatIssues(parsed.error);
+    throw new Error(`Invalid identities file ${file}: ${issues}`);
+  }
+
+  const dir = path.dirname(path.resolve(file));
+  const resolve = (value?: string) => value && path.resolve(dir, value);
+  const names = Object.keys(parsed.data.identities);
+  const defaultName = parsed.data.default || names[0];
+  if (only && !names.includes(only)) {
+    throw new Error(`Unknown agent identity "${only}" (configured: ${names.join(', ')})`);
+  }
+
+  // Signers are unlocked one at a time, as each may prompt for a passphrase
+  const specs: AgentIdentitySpec[] = [];
+  for (const name of only ? [only] : [defaultName, ...names.filter((n) => n !== defaultName)]) {
+    const identity = parsed.data.identities[name];
+    let signer: Signer;
+    try {
+      signer = await loadAgentSigner({
+        REMOTE_SIGNER_URL: identity.remoteSigner?.url,
+        REMOTE_SIGNER_PUBLIC_KEY: identity.remoteSigner?.publicKey,
+        REMOTE_SIGNER_API_KEY: identity.remoteSigner?.apiKey,
+        // Keystore names are looked up in KEYSTORE_DIR, paths relative to the file
+        AGENT_KEYSTORE: identity.keystore && isPath(identity.keystore) ? resolve(identity.keystore) : identity.keystore,
+        AGENT_KEYSTORE_PASSPHRASE_FILE: resolve(identity.passphraseFile),
+        KEYSTORE_DIR: env.KEYSTORE_DIR,
+        AGENT_KEYPAIR_PATH: resolve(identity.keypairPath),
+      });
+    } catch (error: any) {
+      throw new Error(`Failed to load agent identity "${name}": ${error.message}`);
+    }
+
+    specs.push({ name, signer, policyPath: resolve(identity.policy), authToken: identity.authToken });
+  }
+
+  // Identities exist to keep wallets (and their reputation) apart
+  const wallets = new Map<string, string>();
+  for (const spec of specs) {
+    const wallet = spec.signer.publicKey.toBase58();
+    if (wallets.has(wallet)) {
+      throw new Error(`Agent identities "${wallets.get(wallet)}" and "${spec.name}" use the same wallet ${wallet}`);
+    }
+    wallets.set(wallet, spec.name);
+  }
+
+  const tokens = specs.map((spec) => spec.authToken).filter(Boolean);
+  if (new Set(tokens).size !== tokens.length) {
+    throw new Error('Agent identities must not share an authToken');
+  }
+
+  return specs;
+}
+
+function isPath(value: string): boolean {
+  return value.includes('/') || value.includes('\\') || value.endsWith('.json');
+}
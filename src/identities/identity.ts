@@ -0,0 +1,92 @@
+import { X402Error } from '../errors.js';
+import { PolicySet } from '../policy/index.js';
+import { Signer } from '../signers/index.js';
+import { X402Program } from '../solana/anchor.js';
+
+/**
+ * A named agent with its own wallet, budget policy and reputation
+ *
+ * The program signs as the identity's wallet, so escrows, disputes and
+ * the reputation PDA all belong to it.
+ */
+export interface AgentIdentity {
+  name: string;
+  signer: Signer;
+  program: X402Program;
+  policy: PolicySet;
+  policyPath?: string; // Policy file the policy was loaded from (no limits without one)
+  authToken?: string; // HTTP sessions using this bearer token are bound to the identity
+}
+
+/**
+ * The agent identities a server manages
+ */
+export class AgentIdentities {
+  private byName = new Map<string, AgentIdentity>();
+  private byWallet = new Map<string, AgentIdentity>();
+
+  /**
+   * @param identities - Default identity first
+   */
+  constructor(identities: AgentIdentity[]) {
+    if (identities.length === 0) {
+      throw new Error('At least one agent identity is required');
+    }
+
+    for (const identity of identities) {
+      this.byName.set(identity.name, identity);
+      this.byWallet.set(identity.signer.publicKey.toBase58(), identity);
+    }
+  }
+
+  /**
+   * Identity used when a call doesn't select one
+   */
+  get default(): AgentIdentity {
+    return this.byName.values().next().value;
+  }
+
+  /**
+   * All identities, default first
+   */
+  list(): AgentIdentity[] {
+    return Array.from(this.byName.values());
+  }
+
+  get(name: string): AgentIdentity | undefined {
+    return this.byName.get(name);
+  }
+
+  /**
+   * Identity by name or wallet address
+   */
+  find(selector: string): AgentIdentity | undefined {
+    return this.byName.get(selector) || this.byWallet.get(selector);
+  }
+
+  /**
+   * Identity for a tool call's agent argument
+   *
+   * @param selector - Identity name or wallet address (default: the bound identity, else the default)
+   * @param bound - Identity the session is bound to, if any
+   * @throws X402Error - UnknownAgent, or AgentNotPermitted for another identity than the bound one
+   */
+  select(selector: string | undefined, bound?: AgentIdentity): AgentIdentity {
+    if (!selector) {
+      return bound || this.default;
+    }
+
+    const identity = this.find(selector);
+    if (!identity) {
+      throw new X402Error('UnknownAgent', `Unknown agent identity: ${selector}`, {
+        details: { agents: (bound ? [bound] : this.list()).map((i) => i.name) },
+      });
+    }
+    if (bound && identity !== bound) {
+      throw new X402Error('AgentNotPermitted', `This session is bound to agent identity "${bound.name}"`, {
+        details: { agent: bound.name },
+      });
+    }
+    return identity;
+  }
+}
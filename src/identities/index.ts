@@ -0,0 +1,10 @@
+/**
+ * Named agent identities
+ *
+ * One server can act for several agents, each with its own wallet,
+ * budget policy and on-chain reputation. loadAgentIdentities reads them
+ * from the environment; AgentIdentities picks one per tool call.
+ */
+
+export * from './config.js';
+export * from './identity.js';
@@ -0,0 +1,15 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Load IDL dynamically
+const idlPath = path.join(__dirname, 'x402_escrow.json');
+const idlContent = fs.readFileSync(idlPath, 'utf-8');
+
+/**
+ * x402Resolve program IDL
+ */
+export const X402_IDL = JSON.parse(idlContent);
@@ -12,336 +12,396 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import type { Tool } from '@modelcontextprotocol/sdk/types.js';
-import { Keypair, PublicKey } from '@solana/web3.js';
-import bs58 from 'bs58';
+import { PublicKey } from '@solana/web3.js';
 import dotenv from 'dotenv';
 
-import { SolanaClient } from './solana/client.js';
+import { toolError } from './errors.js';
+import { HttpTransportServer } from './http.js';
+import { AgentIdentities, AgentIdentity, AgentIdentitySpec, loadAgentIdentities } from './identities/index.js';
+import { DEFAULT_LEDGER_PATH, Ledger, reconcileLedger } from './ledger/index.js';
+import { loadPolicies, PendingAction } from './policy/index.js';
+import * as prompts from './prompts/index.js';
+import * as resources from './resources/index.js';
+import { ExpiryNotice, ExpiryWatcher } from './scheduler/index.js';
+import { SolanaClient, loadKeypair } from './solana/client.js';
 import { X402Program } from './solana/anchor.js';
+import { parseRpcEndpoints, RpcPoolConfig } from './solana/rpc.js';
+import { SenderOptions } from './solana/sender.js';
+import { EscrowChange, EscrowSubscriptionManager } from './solana/subscriptions.js';
 import * as tools from './tools/index.js';
+import { HttpVerifierClient, LocalVerifierClient, VerifierClient } from './verifier/index.js';
 
 // Load environment variables
 dotenv.config();
 
-/**
- * Tool definitions for MCP protocol
- */
-const TOOL_DEFINITIONS: Tool[] = [
-  {
-    name: 'create_escrow',
-    description:
-      'Create a payment escrow for an API call with quality guarantee. Funds are locked until dispute resolution or time lock expiry.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        api: {
-          type: 'string',
-          description: 'API provider wallet address (Solana public key)',
-        },
-        amount: {
-          type: 'number',
-          description: 'Payment amount in SOL (minimum 0.001 SOL)',
-        },
-        timeLock: {
-          type: 'number',
-          description: 'Escrow expiry in seconds (default: 3600 = 1 hour, max: 2592000 = 30 days)',
-        },
-      },
-      required: ['api', 'amount'],
-    },
-  },
-  {
-    name: 'check_escrow_status',
-    description: 'Check the status and details of an escrow account.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        escrowAddress: {
-          type: 'string',
-          description: 'Escrow PDA address (either this or transactionId required)',
-        },
-        transactionId: {
-          type: 'string',
-          description: 'Transaction ID (either this or escrowAddress required)',
-        },
-      },
-    },
-  },
-  {
-    name: 'verify_payment',
-    description: 'Verify that payment was received and escrow is active.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        transactionId: {
-          type: 'string',
-          description: 'Transaction ID of the escrow',
-        },
-      },
-      required: ['transactionId'],
-    },
-  },
-  {
-    name: 'assess_data_quality',
-    description:
-      'Assess the quality of API response data. Returns quality score (0-100) and recommended refund percentage.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        apiResponse: {
-          type: 'object',
-          description: 'API response JSON to assess',
-        },
-        expectedCriteria: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Expected fields or criteria to check (e.g. ["data.name", "data.price"])',
-        },
-      },
-      required: ['apiResponse', 'expectedCriteria'],
-    },
-  },
-  {
-    name: 'estimate_refund',
-    description: 'Estimate refund amount based on quality score.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        amount: {
-          type: 'number',
-          description: 'Original payment amount in SOL',
-        },
-        qualityScore: {
-          type: 'number',
-          description: 'Quality score (0-100)',
-        },
-      },
-      required: ['amount', 'qualityScore'],
-    },
-  },
-  {
-    name: 'file_dispute',
-    description:
-      'File a dispute for poor quality API data. Marks escrow as disputed on-chain and initiates resolution process.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        transactionId: {
-          type: 'string',
-          description: 'Transaction ID of the escrow to dispute',
-        },
-        qualityScore: {
-          type: 'number',
-          description: 'Quality score assessment (0-100)',
-        },
-        refundPercentage: {
-          type: 'number',
-          description: 'Requested refund percentage (0-100)',
-        },
-        evidence: {
-          type: 'object',
-          description: 'Evidence supporting the dispute (API response, assessment details, etc.)',
-        },
-      },
-      required: ['transactionId', 'qualityScore', 'refundPercentage', 'evidence'],
-    },
-  },
-  {
-    name: 'get_api_reputation',
-    description:
-      'Get reputation score and transaction history for an API provider. Helps decide whether to trust an API.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        apiProvider: {
-          type: 'string',
-          description: 'API provider wallet address',
-        },
-      },
-      required: ['apiProvider'],
-    },
-  },
-  {
-    name: 'call_api_with_escrow',
-    description:
-      'Unified workflow: Create escrow, call API, assess quality, and auto-dispute if needed. This is the recommended tool for protected API calls.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        apiUrl: {
-          type: 'string',
-          description: 'API endpoint URL to call',
-        },
-        apiProvider: {
-          type: 'string',
-          description: 'API provider wallet address',
-        },
-        amount: {
-          type: 'number',
-          description: 'Payment amount in SOL',
-        },
-        expectedCriteria: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Expected fields in API response',
-        },
-        timeLock: {
-          type: 'number',
-          description: 'Escrow expiry in seconds (default: 3600)',
-        },
-        autoDispute: {
-          type: 'boolean',
-          description: 'Automatically file dispute if quality is low (default: true)',
-        },
-        qualityThreshold: {
-          type: 'number',
-          description: 'Quality score threshold for auto-dispute (default: 50)',
-        },
-      },
-      required: ['apiUrl', 'apiProvider', 'amount'],
-    },
-  },
-];
-
 /**
  * MCP Server implementation
  */
 class KamiyoMCPServer {
-  private server: Server;
-  private program: X402Program;
+  private servers = new Set<Server>(); // Connected MCP servers (one per client session)
+  private resourceSubscriptions = new Map<Server, Set<string>>(); // Subscribed resource URIs per server
+  private boundAgents = new Map<Server, AgentIdentity>(); // Identity each bound HTTP session acts as
+  private identities: AgentIdentities;
   private solanaClient: SolanaClient;
+  private resolution: tools.DisputeResolutionConfig;
+  private ledger: Ledger;
+  private subscriptions: EscrowSubscriptionManager;
+  private expiry: ExpiryWatcher[] = [];
+  private dryRun: boolean;
+  private approverToken?: string;
+  private httpTransport?: HttpTransportServer;
+  private shuttingDown = false;
 
-  constructor() {
-    // Initialize MCP server
-    this.server = new Server(
-      {
-        name: 'kamiyo-x402',
-        version: '1.0.0',
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
-      }
-    );
-
+  /**
+   * @param specs - Agent identities, default first (see loadAgentIdentities)
+   */
+  constructor(specs: AgentIdentitySpec[]) {
     // Load configuration from environment
     const rpcUrl = process.env.SOLANA_RPC_URL || 'https://api.devnet.solana.com';
     const programIdStr = process.env.X402_PROGRAM_ID;
-    const agentPrivateKey = process.env.AGENT_PRIVATE_KEY;
-    const agentKeypairPath = process.env.AGENT_KEYPAIR_PATH;
 
     if (!programIdStr) {
       throw new Error('X402_PROGRAM_ID environment variable is required');
     }
 
-    if (!agentPrivateKey && !agentKeypairPath) {
-      throw new Error('Either AGENT_PRIVATE_KEY or AGENT_KEYPAIR_PATH environment variable is required');
+    // Compute budget and priority fees for sent transactions
+    const priorityFee = process.env.PRIORITY_FEE || 'dynamic';
+    if (priorityFee !== 'dynamic' && !/^\d+$/.test(priorityFee)) {
+      throw new Error('PRIORITY_FEE must be "dynamic" or micro-lamports per compute unit');
     }
 
-    // Load keypair from file path or base58 string
-    let keypair: Keypair;
-    try {
-      if (agentKeypairPath) {
-        // Load from file
-        const { loadKeypair } = require('./solana/client.js');
-        keypair = loadKeypair(agentKeypairPath);
-      } else if (agentPrivateKey) {
-        // Load from base58 string
-        const privateKeyBytes = bs58.decode(agentPrivateKey);
-        keypair = Keypair.fromSecretKey(privateKeyBytes);
-      } else {
-        throw new Error('No keypair source provided');
+    const sender: SenderOptions = {
+      priorityFee: priorityFee === 'dynamic' ? 'dynamic' : parseInt(priorityFee, 10),
+      priorityFeePercentile: process.env.PRIORITY_FEE_PERCENTILE
+        ? parseInt(process.env.PRIORITY_FEE_PERCENTILE, 10)
+        : undefined,
+      maxPriorityFee: process.env.MAX_PRIORITY_FEE ? parseInt(process.env.MAX_PRIORITY_FEE, 10) : undefined,
+    };
+
+    // RPC endpoint pools (SOLANA_RPC_URLS overrides SOLANA_RPC_URL)
+    const rpc: RpcPoolConfig = {
+      read: parseRpcEndpoints(process.env.SOLANA_RPC_URLS || rpcUrl),
+      send: process.env.SOLANA_SEND_RPC_URLS ? parseRpcEndpoints(process.env.SOLANA_SEND_RPC_URLS) : undefined,
+      timeoutMs: process.env.RPC_TIMEOUT_MS ? parseInt(process.env.RPC_TIMEOUT_MS, 10) : undefined,
+      healthCheckIntervalMs: process.env.RPC_HEALTH_CHECK_INTERVAL_MS
+        ? parseInt(process.env.RPC_HEALTH_CHECK_INTERVAL_MS, 10)
+        : undefined,
+    };
+
+    // Initialize Solana client (identities share its RPC pool)
+    const programId = new PublicKey(programIdStr);
+    this.solanaClient = new SolanaClient(rpc, specs[0].signer, 'confirmed', sender);
+
+    // Initialize dispute resolution (verifier oracle or Switchboard)
+    const verifierUrl = process.env.VERIFIER_URL;
+    const verifierKeypairPath = process.env.VERIFIER_KEYPAIR_PATH;
+    const strategy = (process.env.DISPUTE_RESOLUTION_STRATEGY || 'verifier') as tools.ResolutionStrategy;
+    const switchboardFunction = process.env.SWITCHBOARD_FUNCTION;
+
+    if (strategy !== 'verifier' && strategy !== 'switchboard') {
+      throw new Error('DISPUTE_RESOLUTION_STRATEGY must be "verifier" or "switchboard"');
+    }
+
+    // The in-process verifier signs its own attestations, so it is opt-in (testing only)
+    const verifierMode = process.env.VERIFIER;
+    const verifierPubkey = process.env.VERIFIER_PUBKEY ? new PublicKey(process.env.VERIFIER_PUBKEY) : undefined;
+    if (verifierMode && verifierMode !== 'local') {
+      throw new Error('VERIFIER must be "local" (or unset to use VERIFIER_URL)');
+    }
+
+    let verifier: VerifierClient | undefined;
+    if (verifierMode === 'local') {
+      verifier = new LocalVerifierClient(verifierKeypairPath ? loadKeypair(verifierKeypairPath) : undefined);
+      if (verifierPubkey && !verifierPubkey.equals(verifier.publicKey)) {
+        throw new Error(`VERIFIER_PUBKEY does not match the local verifier key ${verifier.publicKey.toBase58()}`);
       }
-    } catch (error: any) {
-      throw new Error(`Failed to load keypair: ${error.message}`);
+    } else if (verifierUrl) {
+      if (!verifierPubkey) {
+        throw new Error('VERIFIER_PUBKEY is required with VERIFIER_URL (the verifier key the program trusts)');
+      }
+      verifier = new HttpVerifierClient({
+        url: verifierUrl,
+        publicKey: verifierPubkey,
+        apiKey: process.env.VERIFIER_API_KEY,
+      });
+    } else if (strategy === 'verifier') {
+      throw new Error(
+        'No verifier oracle configured. Set VERIFIER_URL and VERIFIER_PUBKEY, VERIFIER=local for testing, or DISPUTE_RESOLUTION_STRATEGY=switchboard'
+      );
     }
 
-    // Initialize Solana client
-    const programId = new PublicKey(programIdStr);
-    this.solanaClient = new SolanaClient(rpcUrl, keypair);
-    this.program = new X402Program(this.solanaClient.connection, keypair, programId);
+    this.resolution = {
+      strategy,
+      verifier,
+      switchboardFunction: switchboardFunction ? new PublicKey(switchboardFunction) : undefined,
+    };
+
+    // Simulate state-changing tool calls instead of sending them
+    this.dryRun = process.env.DRY_RUN === 'true';
+
+    // Settles parked actions through approve_action; only the human approver has it
+    this.approverToken = process.env.APPROVER_TOKEN || undefined;
+    if (this.approverToken && this.approverToken.length < 16) {
+      throw new Error('APPROVER_TOKEN must be at least 16 characters');
+    }
+
+    // Local record of escrows, API calls and assessments (also counts toward spending budgets)
+    this.ledger = new Ledger(process.env.LEDGER_PATH || DEFAULT_LEDGER_PATH);
+
+    // Each identity signs as its own wallet under its own spending and trust policies
+    this.identities = new AgentIdentities(
+      specs.map((spec) => {
+        const program = new X402Program(this.solanaClient.connection, spec.signer, programId, sender);
+        const identity: AgentIdentity = {
+          name: spec.name,
+          signer: spec.signer,
+          program,
+          policy: loadPolicies(program, spec.policyPath),
+          policyPath: spec.policyPath,
+          authToken: spec.authToken,
+        };
+        identity.policy.spending.addSource(this.ledger.forAgent(spec.signer.publicKey.toBase58()));
+        return identity;
+      })
+    );
+
+    // Push escrow state changes to the client
+    this.subscriptions = new EscrowSubscriptionManager(this.identities.default.program, {
+      catchUpIntervalMs: process.env.SUBSCRIPTION_CATCHUP_INTERVAL_MS
+        ? parseInt(process.env.SUBSCRIPTION_CATCHUP_INTERVAL_MS, 10)
+        : undefined,
+    });
+    this.subscriptions.onChange((change) => this.notifyEscrowChange(change));
+
+    // Keep ledger statuses current (the tools record the changes they make themselves)
+    this.subscriptions.onChange((change) => {
+      const entry = this.ledger.get(change.transactionId);
+      if (entry && entry.status !== change.status) {
+        this.ledger.record({
+          type: 'status_synced',
+          transactionId: change.transactionId,
+          status: change.status,
+          signature: change.signature,
+        });
+      }
+    });
+
+    for (const identity of this.identities.list()) {
+      // Tell clients when actions are parked for approval, settled or expire
+      identity.policy.approvals.onChange((action) => this.notifyPendingAction(identity, action));
+
+      // Warn before escrows expire and apply the policy's default action
+      const expiry = new ExpiryWatcher(
+        this.ledger,
+        identity.signer.publicKey.toBase58(),
+        identity.policy.expiry,
+        (tool, params) => tools.callTool(tool, params, this.toolContext(identity)),
+        {
+          checkIntervalMs: process.env.EXPIRY_CHECK_INTERVAL_MS
+            ? parseInt(process.env.EXPIRY_CHECK_INTERVAL_MS, 10)
+            : undefined,
+        }
+      );
+      expiry.onNotice((notice) => this.notifyExpiry(identity, notice));
+      this.expiry.push(expiry);
+    }
+
+    process.on('SIGINT', () => this.shutdown());
+    process.on('SIGTERM', () => this.shutdown());
+  }
+
+  /**
+   * Tool context acting as an identity
+   *
+   * @param bound - Identity the session is bound to (the only one it can select)
+   */
+  private toolContext(
+    agent: AgentIdentity,
+    bound?: AgentIdentity,
+    confirm?: tools.ToolContext['confirm']
+  ): tools.ToolContext {
+    return {
+      program: agent.program,
+      resolution: this.resolution,
+      policy: agent.policy,
+      ledger: this.ledger,
+      rpc: this.solanaClient.rpc,
+      confirm,
+      dryRun: this.dryRun,
+      agent,
+      approverToken: this.approverToken,
+      agents: bound ? [bound] : this.identities.list(),
+    };
+  }
+
+  /**
+   * Identity a session acts as when a call doesn't select one
+   */
+  private sessionAgent(server: Server): AgentIdentity {
+    return this.boundAgents.get(server) || this.identities.default;
+  }
+
+  /**
+   * Whether a session sees notifications about an identity's escrows and actions
+   *
+   * @param agent - Identity concerned (undefined when it isn't one of ours or
+   * isn't known yet, which only unbound sessions see)
+   */
+  private sees(server: Server, agent?: AgentIdentity): boolean {
+    const bound = this.boundAgents.get(server);
+    return !bound || bound === agent;
+  }
+
+  /**
+   * Create an MCP server for one client session
+   *
+   * @param bound - Identity the session is bound to (HTTP sessions opened with its token)
+   */
+  private createServer(bound?: AgentIdentity): Server {
+    const server = new Server(
+      {
+        name: 'kamiyo-x402',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: { subscribe: true, listChanged: true },
+          prompts: {},
+          logging: {},
+        },
+      }
+    );
 
     // Register handlers
-    this.setupHandlers();
+    this.setupHandlers(server);
 
     // Error handling
-    this.server.onerror = (error) => {
+    server.onerror = (error) => {
       console.error('[MCP Error]', error);
     };
+    server.onclose = () => this.forgetServer(server);
 
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
+    this.servers.add(server);
+    if (bound) {
+      this.boundAgents.set(server, bound);
+    }
+    return server;
+  }
+
+  private forgetServer(server: Server) {
+    this.servers.delete(server);
+    this.resourceSubscriptions.delete(server);
+    this.boundAgents.delete(server);
   }
 
-  private setupHandlers() {
+  private setupHandlers(server: Server) {
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      return {
+        tools: tools.listToolDefinitions(),
+      };
+    });
+
+    // List resources (static resources and open escrows)
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return {
+        resources: await resources.listResources(this.sessionAgent(server).program),
+      };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: resources.RESOURCE_TEMPLATES,
+      };
+    });
+
+    // Read a resource with live account data
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      return resources.readResource(request.params.uri, this.sessionAgent(server).program);
+    });
+
+    // Resource subscriptions: escrow URIs are watched for status changes
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+
+      const transactionId = resources.parseEscrowResourceUri(uri);
+      if (transactionId) {
+        // Bound sessions can only watch their own identity's escrows
+        const bound = this.boundAgents.get(server);
+        if (bound && (await this.escrowAgent(transactionId, bound.program)) !== bound) {
+          throw new McpError(ErrorCode.InvalidParams, `Escrow ${transactionId} does not belong to agent "${bound.name}"`);
+        }
+        await this.subscriptions.track(transactionId);
+      }
+
+      let uris = this.resourceSubscriptions.get(server);
+      if (!uris) {
+        uris = new Set();
+        this.resourceSubscriptions.set(server, uris);
+      }
+      uris.add(uri);
+
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.resourceSubscriptions.get(server)?.delete(request.params.uri);
+      return {};
+    });
+
+    // Guided workflow prompts with live data
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
       return {
-        tools: TOOL_DEFINITIONS,
+        prompts: prompts.PROMPT_DEFINITIONS,
       };
     });
 
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      return prompts.getPrompt(request.params.name, request.params.arguments, this.sessionAgent(server).program);
+    });
+
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name } = request.params;
 
       try {
-        let result: any;
-
-        switch (name) {
-          case 'create_escrow':
-            result = await tools.createEscrow(args as any, this.program);
-            break;
-
-          case 'check_escrow_status':
-            result = await tools.checkEscrowStatus(args as any, this.program);
-            break;
-
-          case 'verify_payment':
-            result = await tools.verifyPayment(args as any, this.program);
-            break;
-
-          case 'assess_data_quality':
-            result = await tools.assessDataQuality(args as any);
-            break;
-
-          case 'estimate_refund':
-            result = await tools.estimateRefund(args as any);
-            break;
-
-          case 'file_dispute':
-            result = await tools.fileDispute(args as any, this.program);
-            break;
-
-          case 'get_api_reputation':
-            result = await tools.getApiReputation(args as any, this.program);
-            break;
-
-          case 'call_api_with_escrow':
-            result = await tools.callApiWithEscrow(args as any, this.program);
-            break;
-
-          default:
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify({
-                    success: false,
-                    error: `Unknown tool: ${name}`,
-                  }),
-                },
-              ],
-            };
+        // The agent argument picks the identity; bound sessions can only act as their own
+        const bound = this.boundAgents.get(server);
+        const { agent, args } = tools.selectAgent(name, request.params.arguments, this.identities, bound);
+
+        const result = await tools.callTool(
+          name,
+          args,
+          this.toolContext(agent, bound, (message) => this.confirmWithUser(server, message, agent))
+        );
+
+        // Watch escrows this server created (directly or through an approved action)
+        const [tool, created] = name === 'approve_action' ? [result?.tool, result?.result] : [name, result];
+        if (
+          (tool === 'create_escrow' || tool === 'call_api_with_escrow') &&
+          created?.success !== false &&
+          created?.transactionId &&
+          !created.dryRun
+        ) {
+          this.subscriptions.track(created.transactionId).catch((error) => {
+            console.error(`Failed to subscribe to escrow ${created.transactionId}:`, error.message);
+          });
+          this.notifyResourceListChanged();
         }
 
-        // Return result as MCP response
+        // Return result as MCP response (failures flagged so agents can branch on the code)
         return {
           content: [
             {
@@ -349,6 +409,7 @@ class KamiyoMCPServer {
               text: JSON.stringify(result, null, 2),
             },
           ],
+          isError: result?.success === false,
         };
       } catch (error: any) {
         // Return error as MCP response
@@ -356,29 +417,299 @@ class KamiyoMCPServer {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({
-                success: false,
-                error: error.message || 'Tool execution failed',
-              }),
+              text: JSON.stringify(toolError(error, 'Tool execution failed'), null, 2),
             },
           ],
+          isError: true,
         };
       }
     });
   }
 
+  /**
+   * Identity that created an escrow, from the ledger or else the chain
+   */
+  private async escrowAgent(transactionId: string, program: X402Program): Promise<AgentIdentity | undefined> {
+    let wallet = this.ledger.get(transactionId)?.agent;
+    if (!wallet) {
+      const [escrowPDA] = program.pda.deriveEscrowPDA(transactionId);
+      wallet = await program
+        .getEscrowAccount(escrowPDA)
+        .then((escrow) => escrow.agent.toBase58())
+        .catch(() => undefined);
+    }
+    return wallet ? this.identities.find(wallet) : undefined;
+  }
+
+  /**
+   * Send an escrow state change to connected clients as a log notification
+   */
+  private notifyEscrowChange(change: EscrowChange) {
+    // Sessions bound to an identity only hear about its own escrows (by the on-chain agent)
+    const wallet = change.agent || this.ledger.get(change.transactionId)?.agent;
+    const agent = wallet ? this.identities.find(wallet) : undefined;
+
+    for (const server of this.servers) {
+      if (!this.sees(server, agent)) continue;
+      server
+        .sendLoggingMessage({
+          level: 'notice',
+          logger: 'x402-escrow',
+          data: {
+            type: 'escrow_status_changed',
+            agent: agent?.name,
+            transactionId: change.transactionId,
+            escrowAddress: change.escrowAddress,
+            previousStatus: change.previousStatus,
+            status: change.status,
+            event: change.event?.name,
+            signature: change.signature,
+            source: change.source,
+          },
+        })
+        .catch((error) => console.error('Failed to send escrow notification:', error.message));
+    }
+
+    // Resource subscribers see the escrow (and the wallet balance) change
+    const updated = [resources.escrowResourceUri(change.transactionId), resources.WALLET_RESOURCE_URI];
+    for (const [server, uris] of this.resourceSubscriptions) {
+      if (!this.sees(server, agent)) continue;
+      for (const uri of updated.filter((u) => uris.has(u))) {
+        server
+          .sendResourceUpdated({ uri })
+          .catch((error) => console.error('Failed to send resource update:', error.message));
+      }
+    }
+
+    // Released and Resolved escrows drop out of resources/list
+    if (change.status === 'Released' || change.status === 'Resolved') {
+      this.notifyResourceListChanged();
+    }
+  }
+
+  /**
+   * Send a pending action's state to connected clients as a log notification
+   */
+  private notifyPendingAction(agent: AgentIdentity, action: PendingAction) {
+    for (const server of this.servers) {
+      if (!this.sees(server, agent)) continue;
+      server
+        .sendLoggingMessage({
+          level: action.status === 'pending' ? 'warning' : 'notice',
+          logger: 'x402-approval',
+          data: {
+            type: `action_${action.status}`,
+            agent: agent.name,
+            actionId: action.id,
+            tool: action.tool,
+            amount: action.stake.amount,
+            currency: action.stake.currency,
+            transactionId: action.stake.transactionId,
+            expiresAt: action.expiresAt,
+          },
+        })
+        .catch((error) => console.error('Failed to send approval notification:', error.message));
+    }
+  }
+
+  /**
+   * Send an expiry warning or default action to connected clients as a log notification
+   */
+  private notifyExpiry(agent: AgentIdentity, notice: ExpiryNotice) {
+    const failed = notice.result?.success === false;
+
+    for (const server of this.servers) {
+      if (!this.sees(server, agent)) continue;
+      server
+        .sendLoggingMessage({
+          level: notice.type === 'expiry_action' && !failed ? 'notice' : 'warning',
+          logger: 'x402-expiry',
+          data: {
+            agent: agent.name,
+            ...notice,
+            result: notice.result && {
+              success: !failed,
+              error: notice.result.error,
+              code: notice.result.code,
+              signature: notice.result.signature,
+            },
+          },
+        })
+        .catch((error) => console.error('Failed to send expiry notification:', error.message));
+    }
+  }
+
+  /**
+   * Ask the human through MCP elicitation
+   *
+   * @returns true if approved, false if declined, undefined if the client
+   * can't elicit or the user dismissed the request
+   */
+  private async confirmWithUser(server: Server, message: string, agent: AgentIdentity): Promise<boolean | undefined> {
+    if (!server.getClientCapabilities()?.elicitation) {
+      return undefined;
+    }
+
+    try {
+      const result = await server.elicitInput(
+        {
+          message,
+          requestedSchema: {
+            type: 'object',
+            properties: {
+              approve: { type: 'boolean', title: 'Approve', description: 'Run this action now' },
+            },
+            required: ['approve'],
+          },
+        },
+        { timeout: agent.policy.approvals.ttlSeconds * 1000 }
+      );
+
+      if (result.action === 'accept') {
+        return result.content?.approve === true;
+      }
+      return result.action === 'decline' ? false : undefined;
+    } catch (error: any) {
+      console.error('Approval elicitation failed:', error.message);
+      return undefined;
+    }
+  }
+
+  /**
+   * Sync an identity's open ledger entries with the chain and keep watching them
+   */
+  private reconcileLedger(identity: AgentIdentity) {
+    reconcileLedger(this.ledger, identity.program)
+      .then((summary) => {
+        console.error(
+          `Ledger reconciled for ${identity.name}: ${summary.checked} checked, ${summary.updated} updated, ` +
+            `${summary.imported} imported` +
+            (summary.failed.length > 0 ? `, ${summary.failed.length} failed` : '')
+        );
+
+        const agent = identity.signer.publicKey.toBase58();
+        for (const entry of this.ledger.query({ agent, status: ['Active', 'Disputed'] }).entries) {
+          this.subscriptions.track(entry.transactionId).catch((error) => {
+            console.error(`Failed to subscribe to escrow ${entry.transactionId}:`, error.message);
+          });
+        }
+      })
+      .catch((error) => console.error(`Ledger reconciliation failed for ${identity.name}:`, error.message));
+  }
+
+  private notifyResourceListChanged() {
+    for (const server of this.servers) {
+      server
+        .sendResourceListChanged()
+        .catch((error) => console.error('Failed to send resource list change:', error.message));
+    }
+  }
+
   async start() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    console.error('KAMIYO x402 MCP Server running on stdio');
-    console.error(`Agent wallet: ${this.solanaClient.publicKey.toBase58()}`);
+    const transportMode = process.env.MCP_TRANSPORT || 'stdio';
+
+    if (transportMode === 'http') {
+      const host = process.env.MCP_HTTP_HOST || '127.0.0.1';
+      const port = parseInt(process.env.MCP_HTTP_PORT || '3402', 10);
+      const authToken = process.env.MCP_AUTH_TOKEN;
+
+      // Sessions opened with an identity's authToken are bound to it
+      const agentTokens = Object.fromEntries(
+        this.identities
+          .list()
+          .filter((identity) => identity.authToken)
+          .map((identity) => [identity.name, identity.authToken!])
+      );
+
+      const loopback = host === '127.0.0.1' || host === 'localhost' || host === '::1';
+      if (!authToken && Object.keys(agentTokens).length === 0 && !loopback) {
+        throw new Error(
+          'MCP_AUTH_TOKEN (or an authToken per agent identity) is required when MCP_HTTP_HOST is not a loopback address'
+        );
+      }
+
+      this.httpTransport = new HttpTransportServer({
+        host,
+        port,
+        authToken,
+        agentTokens,
+        idleTimeoutMs: process.env.MCP_SESSION_IDLE_TIMEOUT_MS
+          ? parseInt(process.env.MCP_SESSION_IDLE_TIMEOUT_MS, 10)
+          : undefined,
+        createServer: (session) => this.createServer(session.agent ? this.identities.get(session.agent) : undefined),
+        onSessionClosed: (session) => {
+          if (session.server) this.forgetServer(session.server);
+        },
+      });
+      await this.httpTransport.listen();
+      console.error(`KAMIYO x402 MCP Server listening on http://${host}:${port}/mcp`);
+    } else if (transportMode === 'stdio') {
+      const transport = new StdioServerTransport();
+      await this.createServer().connect(transport);
+      console.error('KAMIYO x402 MCP Server running on stdio');
+    } else {
+      throw new Error('MCP_TRANSPORT must be "stdio" or "http"');
+    }
+
+    this.solanaClient.rpc.start();
+    this.subscriptions.start();
+    for (const identity of this.identities.list()) {
+      identity.policy.approvals.start();
+      this.reconcileLedger(identity);
+      console.error(
+        `Agent ${identity.name}: ${identity.signer.publicKey.toBase58()} (${identity.signer.name} signer` +
+          (identity.policyPath ? `, policy ${identity.policyPath})` : ')')
+      );
+    }
+    this.expiry.forEach((watcher) => watcher.start());
+    const endpoints = this.solanaClient.rpc.health();
+    console.error(`RPC endpoints: ${endpoints.read.length} read, ${endpoints.send.length} send`);
+    console.error(`Dispute resolution: ${this.resolution.strategy}`);
+    console.error(`Priority fee: ${process.env.PRIORITY_FEE || 'dynamic'}`);
+    if (this.dryRun) {
+      console.error('Dry run: state-changing tools simulate transactions without sending them');
+    }
+    if (this.resolution.verifier instanceof LocalVerifierClient) {
+      console.error(
+        `Using local verifier (testing only): ${this.resolution.verifier.publicKey.toBase58()}` +
+          (process.env.VERIFIER_KEYPAIR_PATH ? '' : ' (ephemeral key)')
+      );
+    } else if (this.resolution.verifier) {
+      console.error(`Verifier oracle: ${process.env.VERIFIER_URL} (key ${this.resolution.verifier.publicKey.toBase58()})`);
+    }
+  }
+
+  /**
+   * Close sessions and subscriptions, then exit
+   */
+  async shutdown() {
+    if (this.shuttingDown) {
+      return;
+    }
+    this.shuttingDown = true;
+
+    // Don't hang on a stuck connection
+    setTimeout(() => process.exit(1), 10_000).unref();
+
+    await this.subscriptions.stop();
+    this.identities.list().forEach((identity) => identity.policy.approvals.stop());
+    this.expiry.forEach((watcher) => watcher.stop());
+    this.solanaClient.rpc.stop();
+    if (this.httpTransport) {
+      await this.httpTransport.close();
+    }
+    for (const server of this.servers) {
+      await server.close().catch(() => {});
+    }
+
+    process.exit(0);
   }
 }
 
 // Start server
 async function main() {
   try {
-    const server = new KamiyoMCPServer();
+    const server = new KamiyoMCPServer(await loadAgentIdentities());
     await server.start();
   } catch (error) {
     console.error('Failed to start MCP server:', error);
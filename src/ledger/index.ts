@@ -0,0 +1,9 @@
+/**
+ * Persistent local record of escrows, API calls and assessments
+ */
+
+// JSONL event store
+export * from './ledger.js';
+
+// Startup reconciliation with chain state
+export * from './reconcile.js';
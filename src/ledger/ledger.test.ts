@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EscrowCreatedEvent, Ledger } from './ledger.js';
+
+function created(transactionId: string, overrides: Partial<EscrowCreatedEvent> = {}): EscrowCreatedEvent {
+  return {
+    type: 'escrow_created',
+    transactionId,
+    escrowAddress: `escrow-${transactionId}`,
+    agent: 'agent-1',
+    provider: 'provider-1',
+    amount: 0.5,
+    currency: 'SOL',
+    createdAt: 1_000,
+    signature: `create-${transactionId}`,
+    source: 'server',
+    at: 1_000,
+    ...overrides,
+  };
+}
+
+describe('Ledger', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ledger-test-'));
+    file = path.join(dir, 'nested', 'ledger.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('creates the file readable only by its owner', () => {
+    new Ledger(file);
+
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    expect(fs.statSync(path.dirname(file)).mode & 0o777).toBe(0o700);
+  });
+
+  it('folds the events of an escrow into one entry', () => {
+    const ledger = new Ledger(file);
+    ledger.record(created('tx-1'));
+    ledger.record({
+      type: 'api_call',
+      transactionId: 'tx-1',
+      apiUrl: 'https://api.test',
+      ok: true,
+      response: { a: 1 },
+      at: 1_010,
+    });
+    ledger.record({ type: 'assessment', transactionId: 'tx-1', qualityScore: 40, refundPercentage: 60, at: 1_020 });
+    ledger.record({
+      type: 'dispute_filed',
+      transactionId: 'tx-1',
+      signature: 'dispute-1',
+      qualityScore: 40,
+      refundPercentage: 60,
+      at: 1_030,
+    });
+    ledger.record({
+      type: 'dispute_resolved',
+      transactionId: 'tx-1',
+      signature: 'resolve-1',
+      refundAmount: 0.3,
+      paymentAmount: 0.2,
+      at: 1_040,
+    });
+
+    expect(ledger.get('tx-1')).toMatchObject({
+      status: 'Resolved',
+      apiCall: { apiUrl: 'https://api.test', ok: true, response: { a: 1 } },
+      assessment: { qualityScore: 40, refundPercentage: 60 },
+      dispute: { qualityScore: 40, refundPercentage: 60 },
+      resolution: { refundAmount: 0.3, paymentAmount: 0.2 },
+      signatures: { create: 'create-tx-1', dispute: 'dispute-1', resolve: 'resolve-1' },
+      updatedAt: 1_040,
+    });
+  });
+
+  it('rebuilds the same entries from the file', () => {
+    const ledger = new Ledger(file);
+    ledger.record(created('tx-1'));
+    ledger.record({ type: 'funds_released', transactionId: 'tx-1', signature: 'release-1' });
+
+    expect(new Ledger(file).get('tx-1')).toEqual(ledger.get('tx-1'));
+  });
+
+  it('drops events for escrows it never saw created', () => {
+    const ledger = new Ledger(file);
+    ledger.record({ type: 'funds_released', transactionId: 'tx-unknown', signature: 'release-1' });
+
+    expect(ledger.has('tx-unknown')).toBe(false);
+    expect(fs.readFileSync(file, 'utf-8')).toBe('');
+  });
+
+  it('keeps signatures it already has when a status is synced from the chain', () => {
+    const ledger = new Ledger(file);
+    ledger.record(created('tx-1'));
+    ledger.record({ type: 'funds_released', transactionId: 'tx-1', signature: 'release-1' });
+    ledger.record({ type: 'status_synced', transactionId: 'tx-1', status: 'Released', signature: 'release-2' });
+
+    expect(ledger.get('tx-1')?.signatures.release).toBe('release-1');
+  });
+
+  it('truncates oversized API responses', () => {
+    const ledger = new Ledger(file);
+    ledger.record(created('tx-1'));
+    ledger.record({
+      type: 'api_call',
+      transactionId: 'tx-1',
+      apiUrl: 'https://api.test',
+      ok: true,
+      response: 'x'.repeat(70_000),
+    });
+
+    expect(ledger.get('tx-1')?.apiCall?.response).toMatchObject({ truncated: true, bytes: 70_002 });
+  });
+
+  it('skips a partial last line and appends after it', () => {
+    const ledger = new Ledger(file);
+    ledger.record(created('tx-1'));
+    fs.appendFileSync(file, '{"type":"escrow_cre');
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const reloaded = new Ledger(file);
+    reloaded.record(created('tx-2'));
+
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('Skipping unreadable line 2'));
+    expect(new Ledger(file).query().total).toBe(2);
+    error.mockRestore();
+  });
+
+  it('filters entries newest first and reports spends per agent', async () => {
+    const ledger = new Ledger(file);
+    ledger.record(created('tx-1', { createdAt: 1_000 }));
+    ledger.record(created('tx-2', { createdAt: 2_000, provider: 'provider-2' }));
+    ledger.record(created('tx-3', { createdAt: 3_000, agent: 'agent-2', amount: 2 }));
+    ledger.record({ type: 'funds_released', transactionId: 'tx-1', signature: 'release-1' });
+
+    expect(ledger.query().entries.map((e) => e.transactionId)).toEqual(['tx-3', 'tx-2', 'tx-1']);
+    expect(ledger.query({ status: ['Active'], agent: 'agent-1' }).entries.map((e) => e.transactionId)).toEqual([
+      'tx-2',
+    ]);
+    expect(ledger.query({ from: 2_000, to: 3_000 }).total).toBe(1);
+    expect(ledger.query({ offset: 1, limit: 1 })).toMatchObject({ total: 3, entries: [{ transactionId: 'tx-2' }] });
+
+    expect(await ledger.getSpends(1_500)).toHaveLength(2);
+    expect(await ledger.forAgent('agent-2').getSpends(0)).toEqual([
+      { transactionId: 'tx-3', provider: 'provider-1', amount: 2, createdAt: 3_000 },
+    ]);
+  });
+});
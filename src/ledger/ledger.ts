@@ -0,0 +1,343 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SpendRecord, SpendSource } from '../policy/index.js';
+
+/**
+ * Local ledger of escrows the server created
+ *
+ * An append-only JSONL file of events: escrow creation, the paid API
+ * call, the quality assessment, disputes, resolutions, releases and
+ * status changes seen on-chain. Events are folded into one entry per
+ * escrow when the file is loaded, so the server keeps its history
+ * (including API responses and dispute evidence) across restarts.
+ */
+
+export type LedgerEscrowStatus = 'Active' | 'Disputed' | 'Resolved' | 'Released';
+
+interface LedgerEventBase {
+  transactionId: string;
+  at: number; // Unix timestamp
+}
+
+export interface EscrowCreatedEvent extends LedgerEventBase {
+  type: 'escrow_created';
+  escrowAddress: string;
+  agent: string;
+  provider: string;
+  amount: number; // In SOL
+  currency: string;
+  createdAt: number; // Unix timestamp
+  expiresAt?: number; // Unix timestamp
+  signature?: string; // Unset for escrows imported from the chain
+  source: 'server' | 'chain';
+}
+
+export interface ApiCallEvent extends LedgerEventBase {
+  type: 'api_call';
+  apiUrl: string;
+  ok: boolean;
+  response?: any; // Capped at MAX_STORED_BYTES
+  error?: string;
+}
+
+export interface AssessmentEvent extends LedgerEventBase {
+  type: 'assessment';
+  qualityScore: number; // 0-100
+  refundPercentage: number; // 0-100
+  expectedCriteria?: string[];
+  rationale?: string;
+}
+
+export interface DisputeFiledEvent extends LedgerEventBase {
+  type: 'dispute_filed';
+  signature: string;
+  qualityScore: number;
+  refundPercentage: number;
+  evidence?: any; // Capped at MAX_STORED_BYTES
+}
+
+export interface DisputeResolvedEvent extends LedgerEventBase {
+  type: 'dispute_resolved';
+  signature: string;
+  strategy?: string;
+  qualityScore?: number;
+  refundPercentage?: number;
+  refundAmount?: number; // In SOL
+  paymentAmount?: number; // In SOL
+  verifier?: string;
+}
+
+export interface FundsReleasedEvent extends LedgerEventBase {
+  type: 'funds_released';
+  signature: string;
+  amount?: number; // In SOL
+}
+
+export interface StatusSyncedEvent extends LedgerEventBase {
+  type: 'status_synced';
+  status: LedgerEscrowStatus;
+  signature?: string;
+}
+
+export type LedgerEvent =
+  | EscrowCreatedEvent
+  | ApiCallEvent
+  | AssessmentEvent
+  | DisputeFiledEvent
+  | DisputeResolvedEvent
+  | FundsReleasedEvent
+  | StatusSyncedEvent;
+
+// Events as recorded (the ledger stamps `at`)
+type Unstamped<E> = E extends LedgerEvent ? Omit<E, 'at'> & { at?: number } : never;
+export type LedgerEventInput = Unstamped<LedgerEvent>;
+
+/**
+ * Everything known about one escrow
+ */
+export interface LedgerEntry {
+  transactionId: string;
+  escrowAddress: string;
+  agent: string;
+  provider: string;
+  amount: number; // In SOL
+  currency: string;
+  status: LedgerEscrowStatus;
+  createdAt: number; // Unix timestamp
+  expiresAt?: number; // Unix timestamp
+  source: 'server' | 'chain';
+  apiCall?: Omit<ApiCallEvent, 'type' | 'transactionId'>;
+  assessment?: Omit<AssessmentEvent, 'type' | 'transactionId'>;
+  dispute?: Omit<DisputeFiledEvent, 'type' | 'transactionId' | 'signature'>;
+  resolution?: Omit<DisputeResolvedEvent, 'type' | 'transactionId' | 'signature'>;
+  signatures: {
+    create?: string;
+    dispute?: string;
+    resolve?: string;
+    release?: string;
+  };
+  updatedAt: number; // Unix timestamp
+}
+
+export interface LedgerQuery {
+  transactionId?: string;
+  agent?: string;
+  provider?: string;
+  status?: LedgerEscrowStatus[]; // Any of these statuses
+  from?: number; // Created at or after (Unix timestamp)
+  to?: number; // Created before (Unix timestamp)
+  offset?: number;
+  limit?: number;
+}
+
+// Used when LEDGER_PATH is unset
+export const DEFAULT_LEDGER_PATH = path.join(os.homedir(), '.kamiyo-mcp', 'ledger.jsonl');
+
+// API responses and evidence bigger than this are stored as a truncated preview
+const MAX_STORED_BYTES = 64 * 1024;
+
+export class Ledger implements SpendSource {
+  private entries = new Map<string, LedgerEntry>();
+
+  constructor(readonly filePath: string) {
+    // The ledger holds API responses and dispute evidence, so only the owner may read it
+    fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+    fs.closeSync(fs.openSync(filePath, 'a', 0o600));
+    this.load();
+  }
+
+  /**
+   * Append an event and apply it
+   */
+  record(input: LedgerEventInput): void {
+    const event = { ...input, at: input.at ?? Math.floor(Date.now() / 1000) } as LedgerEvent;
+
+    if (event.type === 'api_call' && event.response !== undefined) {
+      event.response = capped(event.response);
+    }
+    if (event.type === 'dispute_filed' && event.evidence !== undefined) {
+      event.evidence = capped(event.evidence);
+    }
+
+    // Later events need the escrow's creation event to attach to
+    if (event.type !== 'escrow_created' && !this.entries.has(event.transactionId)) {
+      return;
+    }
+
+    fs.appendFileSync(this.filePath, JSON.stringify(event) + '\n');
+    this.apply(event);
+  }
+
+  /**
+   * Whether the ledger knows an escrow
+   */
+  has(transactionId: string): boolean {
+    return this.entries.has(transactionId);
+  }
+
+  get(transactionId: string): LedgerEntry | undefined {
+    return this.entries.get(transactionId);
+  }
+
+  /**
+   * Entries matching the filters, newest first
+   */
+  query(filters: LedgerQuery = {}): { entries: LedgerEntry[]; total: number } {
+    const matches = Array.from(this.entries.values())
+      .filter((entry) => !filters.transactionId || entry.transactionId === filters.transactionId)
+      .filter((entry) => !filters.agent || entry.agent === filters.agent)
+      .filter((entry) => !filters.provider || entry.provider === filters.provider)
+      .filter((entry) => !filters.status || filters.status.length === 0 || filters.status.includes(entry.status))
+      .filter((entry) => filters.from === undefined || entry.createdAt >= filters.from)
+      .filter((entry) => filters.to === undefined || entry.createdAt < filters.to)
+      .sort((a, b) => b.createdAt - a.createdAt);
+
+    const offset = filters.offset || 0;
+    const limit = filters.limit ?? matches.length;
+
+    return {
+      entries: matches.slice(offset, offset + limit),
+      total: matches.length,
+    };
+  }
+
+  /**
+   * Spending since a time, for the spending policy
+   */
+  async getSpends(since: number): Promise<SpendRecord[]> {
+    return this.spends({ from: since });
+  }
+
+  /**
+   * Spending of one agent wallet, for that agent's spending policy
+   * (agents sharing the ledger have separate budgets)
+   */
+  forAgent(agent: string): SpendSource {
+    return { getSpends: async (since) => this.spends({ agent, from: since }) };
+  }
+
+  private spends(filters: LedgerQuery): SpendRecord[] {
+    return this.query(filters).entries.map((entry) => ({
+      transactionId: entry.transactionId,
+      provider: entry.provider,
+      amount: entry.amount,
+      createdAt: entry.createdAt,
+    }));
+  }
+
+  private load(): void {
+    const content = fs.readFileSync(this.filePath, 'utf-8');
+
+    // Start new events on a fresh line after a partial write
+    if (content.length > 0 && !content.endsWith('\n')) {
+      fs.appendFileSync(this.filePath, '\n');
+    }
+
+    const lines = content.split('\n');
+    lines.forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+      try {
+        this.apply(JSON.parse(line));
+      } catch (error: any) {
+        // A crash mid-append can leave a partial last line
+        console.error(`[Ledger] Skipping unreadable line ${index + 1} of ${this.filePath}: ${error.message}`);
+      }
+    });
+  }
+
+  private apply(event: LedgerEvent): void {
+    if (event.type === 'escrow_created') {
+      const existing = this.entries.get(event.transactionId);
+      this.entries.set(event.transactionId, {
+        signatures: {},
+        status: 'Active',
+        ...existing,
+        transactionId: event.transactionId,
+        escrowAddress: event.escrowAddress,
+        agent: event.agent,
+        provider: event.provider,
+        amount: event.amount,
+        currency: event.currency,
+        createdAt: event.createdAt,
+        expiresAt: event.expiresAt,
+        source: event.source,
+        updatedAt: event.at,
+      });
+      if (event.signature) {
+        this.entries.get(event.transactionId)!.signatures.create = event.signature;
+      }
+      return;
+    }
+
+    const entry = this.entries.get(event.transactionId);
+    if (!entry) {
+      return;
+    }
+    entry.updatedAt = event.at;
+
+    switch (event.type) {
+      case 'api_call':
+        entry.apiCall = { apiUrl: event.apiUrl, ok: event.ok, response: event.response, error: event.error, at: event.at };
+        break;
+      case 'assessment':
+        entry.assessment = {
+          qualityScore: event.qualityScore,
+          refundPercentage: event.refundPercentage,
+          expectedCriteria: event.expectedCriteria,
+          rationale: event.rationale,
+          at: event.at,
+        };
+        break;
+      case 'dispute_filed':
+        entry.status = 'Disputed';
+        entry.signatures.dispute = event.signature;
+        entry.dispute = {
+          qualityScore: event.qualityScore,
+          refundPercentage: event.refundPercentage,
+          evidence: event.evidence,
+          at: event.at,
+        };
+        break;
+      case 'dispute_resolved':
+        entry.status = 'Resolved';
+        entry.signatures.resolve = event.signature;
+        entry.resolution = {
+          strategy: event.strategy,
+          qualityScore: event.qualityScore,
+          refundPercentage: event.refundPercentage,
+          refundAmount: event.refundAmount,
+          paymentAmount: event.paymentAmount,
+          verifier: event.verifier,
+          at: event.at,
+        };
+        break;
+      case 'funds_released':
+        entry.status = 'Released';
+        entry.signatures.release = event.signature;
+        break;
+      case 'status_synced':
+        entry.status = event.status;
+        if (event.status === 'Released' && event.signature) {
+          entry.signatures.release ??= event.signature;
+        }
+        if (event.status === 'Resolved' && event.signature) {
+          entry.signatures.resolve ??= event.signature;
+        }
+        if (event.status === 'Disputed' && event.signature) {
+          entry.signatures.dispute ??= event.signature;
+        }
+        break;
+    }
+  }
+}
+
+function capped(value: any): any {
+  const serialized = JSON.stringify(value) ?? '';
+  if (serialized.length <= MAX_STORED_BYTES) {
+    return value;
+  }
+  return { truncated: true, bytes: serialized.length, preview: serialized.slice(0, MAX_STORED_BYTES) };
+}
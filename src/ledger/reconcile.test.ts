@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { X402Program } from '../solana/anchor.js';
+import { TransactionEvents } from '../solana/events.js';
+import { Ledger } from './ledger.js';
+import { reconcileLedger } from './reconcile.js';
+
+const AGENT = PublicKey.unique();
+const PROVIDER = PublicKey.unique();
+
+// Escrow PDAs by transaction ID, stable across calls
+const escrows = new Map<string, PublicKey>();
+function escrowPDA(transactionId: string): PublicKey {
+  if (!escrows.has(transactionId)) {
+    escrows.set(transactionId, PublicKey.unique());
+  }
+  return escrows.get(transactionId)!;
+}
+
+function tx(
+  signature: string,
+  name: 'DisputeMarked' | 'FundsReleased',
+  escrow: PublicKey,
+  failed = false
+): TransactionEvents {
+  return { signature, slot: 1, blockTime: null, failed, events: [{ name, data: { escrow } as any }] };
+}
+
+function fakeProgram(
+  history: Record<string, TransactionEvents[] | Error>,
+  accounts: Array<{ transactionId: string; status: object }> = []
+): { program: X402Program; getAccountHistory: jest.Mock } {
+  const getAccountHistory = jest.fn(async (address: PublicKey) => {
+    const [transactionId] = Array.from(escrows.entries()).find(([, pda]) => pda.equals(address))!;
+    const result = history[transactionId] ?? [];
+    if (result instanceof Error) {
+      throw result;
+    }
+    return result;
+  });
+
+  const program = {
+    program: { provider: { publicKey: AGENT } },
+    pda: { deriveEscrowPDA: (transactionId: string) => [escrowPDA(transactionId), 255] },
+    events: { getAccountHistory },
+    listEscrows: async () =>
+      accounts.map(({ transactionId, status }) => ({
+        publicKey: escrowPDA(transactionId),
+        account: {
+          transactionId,
+          api: PROVIDER,
+          amount: LAMPORTS_PER_SOL / 4,
+          status,
+          createdAt: 5_000,
+          expiresAt: 8_600,
+        },
+      })),
+  } as unknown as X402Program;
+
+  return { program, getAccountHistory };
+}
+
+describe('reconcileLedger', () => {
+  let dir: string;
+  let ledger: Ledger;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reconcile-test-'));
+    ledger = new Ledger(path.join(dir, 'ledger.jsonl'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function open(transactionId: string): void {
+    ledger.record({
+      type: 'escrow_created',
+      transactionId,
+      escrowAddress: escrowPDA(transactionId).toBase58(),
+      agent: AGENT.toBase58(),
+      provider: PROVIDER.toBase58(),
+      amount: 0.25,
+      currency: 'SOL',
+      createdAt: 1_000,
+      signature: `create-${transactionId}`,
+      source: 'server',
+    });
+  }
+
+  it('syncs open entries to the latest successful event', async () => {
+    open('tx-1');
+    open('tx-2');
+    const { program, getAccountHistory } = fakeProgram({
+      'tx-1': [
+        tx('dispute-1', 'DisputeMarked', escrowPDA('tx-1')),
+        tx('release-1', 'FundsReleased', escrowPDA('tx-1'), true),
+      ],
+    });
+
+    const summary = await reconcileLedger(ledger, program);
+
+    expect(summary).toEqual({ checked: 2, updated: 1, imported: 0, failed: [] });
+    expect(ledger.get('tx-1')).toMatchObject({ status: 'Disputed', signatures: { dispute: 'dispute-1' } });
+    expect(ledger.get('tx-2')?.status).toBe('Active');
+    expect(getAccountHistory).toHaveBeenCalledWith(escrowPDA('tx-1'), { until: 'create-tx-1' });
+  });
+
+  it('pages history back only to the last known signature', async () => {
+    open('tx-1');
+    ledger.record({
+      type: 'dispute_filed',
+      transactionId: 'tx-1',
+      signature: 'dispute-1',
+      qualityScore: 10,
+      refundPercentage: 90,
+    });
+    const { program, getAccountHistory } = fakeProgram({});
+
+    await reconcileLedger(ledger, program);
+
+    expect(getAccountHistory).toHaveBeenCalledWith(escrowPDA('tx-1'), { until: 'dispute-1' });
+  });
+
+  it('reports escrows it could not check and keeps going', async () => {
+    open('tx-1');
+    open('tx-2');
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const { program } = fakeProgram({
+      'tx-1': new Error('RPC down'),
+      'tx-2': [tx('release-2', 'FundsReleased', escrowPDA('tx-2'))],
+    });
+
+    const summary = await reconcileLedger(ledger, program);
+
+    expect(summary).toMatchObject({ updated: 1, failed: ['tx-1'] });
+    expect(ledger.get('tx-2')).toMatchObject({ status: 'Released', signatures: { release: 'release-2' } });
+    error.mockRestore();
+  });
+
+  it('imports open on-chain escrows the ledger does not know', async () => {
+    open('tx-1');
+    const { program } = fakeProgram({}, [
+      { transactionId: 'tx-1', status: { active: {} } },
+      { transactionId: 'tx-chain', status: { disputed: {} } },
+    ]);
+
+    const summary = await reconcileLedger(ledger, program);
+
+    expect(summary.imported).toBe(1);
+    expect(ledger.get('tx-chain')).toMatchObject({
+      source: 'chain',
+      status: 'Disputed',
+      amount: 0.25,
+      currency: 'SOL',
+      createdAt: 5_000,
+      expiresAt: 8_600,
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { X402Program } from '../solana/anchor.js';
+import { X402Event } from '../solana/events.js';
+import { lamportsToSol, parseEscrowStatus } from '../solana/transactions.js';
+import { Ledger, LedgerEscrowStatus } from './ledger.js';
+
+export interface ReconcileSummary {
+  checked: number; // Open ledger entries compared with the chain
+  updated: number; // Entries whose status changed
+  imported: number; // On-chain escrows the ledger didn't know
+  failed: string[]; // Transaction IDs that couldn't be checked
+}
+
+const EVENT_STATUS: Record<X402Event['name'], LedgerEscrowStatus> = {
+  EscrowInitialized: 'Active',
+  DisputeMarked: 'Disputed',
+  DisputeResolved: 'Resolved',
+  FundsReleased: 'Released',
+};
+
+/**
+ * Bring the ledger in line with the chain
+ *
+ * Open (Active or Disputed) entries of this agent get their latest
+ * status from the escrow's transaction history, which still works after
+ * the escrow account is closed. Open escrows of the agent that the
+ * ledger doesn't know (e.g. created before it existed) are imported.
+ */
+export async function reconcileLedger(ledger: Ledger, program: X402Program): Promise<ReconcileSummary> {
+  const agent = program.program.provider.publicKey!;
+  const summary: ReconcileSummary = { checked: 0, updated: 0, imported: 0, failed: [] };
+
+  const open = ledger.query({ agent: agent.toBase58(), status: ['Active', 'Disputed'] }).entries;
+
+  for (const entry of open) {
+    summary.checked++;
+    try {
+      const [escrowPDA] = program.pda.deriveEscrowPDA(entry.transactionId);
+      // Only transactions after the last one the ledger knows can change the status
+      const history = await program.events.getAccountHistory(escrowPDA, {
+        until: entry.signatures.dispute ?? entry.signatures.create,
+      });
+
+      let latest: { status: LedgerEscrowStatus; signature: string } | undefined;
+      for (const tx of history) {
+        for (const event of tx.events) {
+          if (!tx.failed && event.data.escrow.equals(escrowPDA)) {
+            latest = { status: EVENT_STATUS[event.name], signature: tx.signature };
+          }
+        }
+      }
+
+      if (latest && latest.status !== entry.status) {
+        ledger.record({
+          type: 'status_synced',
+          transactionId: entry.transactionId,
+          status: latest.status,
+          signature: latest.signature,
+        });
+        summary.updated++;
+      }
+    } catch (error: any) {
+      console.error(`[Ledger] Failed to reconcile escrow ${entry.transactionId}: ${error.message}`);
+      summary.failed.push(entry.transactionId);
+    }
+  }
+
+  // Escrow accounts still on-chain but missing from the ledger
+  const accounts = await program.listEscrows({ agent });
+  for (const { publicKey, account } of accounts) {
+    if (ledger.has(account.transactionId)) {
+      continue;
+    }
+
+    ledger.record({
+      type: 'escrow_created',
+      transactionId: account.transactionId,
+      escrowAddress: publicKey.toBase58(),
+      agent: agent.toBase58(),
+      provider: account.api.toBase58(),
+      amount: lamportsToSol(Number(account.amount)),
+      currency: 'SOL',
+      createdAt: Number(account.createdAt),
+      expiresAt: Number(account.expiresAt),
+      source: 'chain',
+    });
+
+    const status = parseEscrowStatus(account.status);
+    if (status !== 'Active') {
+      ledger.record({ type: 'status_synced', transactionId: account.transactionId, status });
+    }
+    summary.imported++;
+  }
+
+  return summary;
+}
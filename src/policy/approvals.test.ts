@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { ApprovalQueue, parseApprovalPolicy, PendingAction } from './approvals.js';
+
+const stake = (amount: number) => ({ amount, currency: 'SOL' });
+
+describe('parseApprovalPolicy', () => {
+  it('rejects thresholds the queue cannot apply', () => {
+    expect(() => parseApprovalPolicy({ threshold: 1, currencies: { USDC: 10 } })).toThrow(
+      "Invalid approval policy: (root): Unrecognized key(s) in object: 'currencies'"
+    );
+    expect(() => parseApprovalPolicy({ actions: ['transfer'] })).toThrow('actions.0');
+  });
+});
+
+describe('ApprovalQueue', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('gates nothing without a threshold', () => {
+    const queue = new ApprovalQueue(parseApprovalPolicy({}));
+
+    expect(queue.gates('create_escrow')).toBe(false);
+    expect(queue.requiresApproval('create_escrow', stake(1000))).toBe(false);
+  });
+
+  it('requires approval at or above the threshold for gated actions only', () => {
+    const queue = new ApprovalQueue(parseApprovalPolicy({ threshold: 1, actions: ['create_escrow'] }));
+
+    expect(queue.requiresApproval('create_escrow', stake(1))).toBe(true);
+    expect(queue.requiresApproval('create_escrow', stake(0.99))).toBe(false);
+    expect(queue.requiresApproval('release_funds', stake(5))).toBe(false);
+    expect(queue.gates('get_budget_status')).toBe(false);
+  });
+
+  it('parks actions and settles them once', () => {
+    const queue = new ApprovalQueue(parseApprovalPolicy({ threshold: 0 }));
+    const events: string[] = [];
+    queue.onChange((action) => events.push(`${action.tool}:${action.status}`));
+
+    const action = queue.park('release_funds', { transactionId: 'tx-1' }, stake(2));
+    expect(queue.list()).toEqual([action]);
+
+    expect(queue.resolve(action.id, 'rejected', 'Too much')).toMatchObject({ status: 'rejected', reason: 'Too much' });
+    expect(queue.resolve(action.id, 'approved')).toBeUndefined();
+    expect(queue.list()).toEqual([]);
+    expect(queue.list(['rejected'])).toHaveLength(1);
+    expect(events).toEqual(['release_funds:pending', 'release_funds:rejected']);
+  });
+
+  it('expires actions nobody settles in time', () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const queue = new ApprovalQueue(parseApprovalPolicy({ threshold: 0, ttlSeconds: 60 }));
+    const expired: PendingAction[] = [];
+    queue.onChange((action) => action.status === 'expired' && expired.push(action));
+
+    const action = queue.park('create_escrow', { amount: 1 }, stake(1));
+    jest.setSystemTime(new Date('2026-01-01T00:01:00Z'));
+
+    expect(queue.get(action.id)?.status).toBe('expired');
+    expect(queue.resolve(action.id, 'approved')).toBeUndefined();
+    expect(expired).toHaveLength(1);
+  });
+
+  it('keeps a failing listener from blocking the others', () => {
+    const queue = new ApprovalQueue(parseApprovalPolicy({ threshold: 0 }));
+    const seen: string[] = [];
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    queue.onChange(() => {
+      throw new Error('boom');
+    });
+    queue.onChange((action) => seen.push(action.id));
+
+    const action = queue.park('file_dispute', {}, stake(1));
+
+    expect(seen).toEqual([action.id]);
+    expect(error).toHaveBeenCalledWith('[Approvals] Listener failed:', 'boom');
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,215 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { formatIssues } from './config.js';
+
+/**
+ * Human-in-the-loop approval for actions that move funds
+ *
+ * Actions whose amount at stake reaches the configured threshold are
+ * parked instead of run. A human approves or rejects them, either in the
+ * client through MCP elicitation or with the approve_action tool, and
+ * parked actions expire if nobody does.
+ */
+
+export const APPROVABLE_ACTIONS = [
+  'create_escrow',
+  'call_api_with_escrow',
+  'release_funds',
+  'file_dispute',
+  'resolve_dispute',
+] as const;
+
+export type ApprovableAction = (typeof APPROVABLE_ACTIONS)[number];
+
+// Strict, so thresholds the queue can't apply (e.g. token thresholds) fail to load
+const approvalPolicySchema = z
+  .object({
+    threshold: z.number().nonnegative().optional(), // In SOL; actions at or above need approval (0 = all)
+    actions: z.array(z.enum(APPROVABLE_ACTIONS)).optional(), // Gated actions (default: all of them)
+    ttlSeconds: z.number().int().positive().optional(), // How long an action waits for approval (default: 900)
+    elicitation: z.boolean().optional(), // Ask through MCP elicitation when the client supports it (default: true)
+  })
+  .strict();
+
+export type ApprovalPolicy = z.infer<typeof approvalPolicySchema>;
+
+export type PendingActionStatus = 'pending' | 'approved' | 'rejected' | 'expired';
+
+/**
+ * Funds an action moves or decides on
+ */
+export interface Stake {
+  amount: number; // In SOL
+  currency: string;
+  transactionId?: string; // Escrow the action settles
+}
+
+export interface PendingAction {
+  id: string;
+  tool: string;
+  params: Record<string, any>; // Validated tool arguments, run as-is on approval
+  stake: Stake;
+  status: PendingActionStatus;
+  createdAt: number; // Unix timestamp
+  expiresAt: number; // Unix timestamp
+  resolvedAt?: number; // Unix timestamp
+  reason?: string; // Given by the approver
+}
+
+type ActionListener = (action: PendingAction) => void;
+
+const DEFAULT_TTL_SECONDS = 900;
+
+// Settled actions stay listable for a day
+const RESOLVED_RETENTION_SECONDS = 86_400;
+
+/**
+ * Validate an approval policy object
+ */
+export function parseApprovalPolicy(raw: unknown): ApprovalPolicy {
+  const parsed = approvalPolicySchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = formatIssues(parsed.error);
+    throw new Error(`Invalid approval policy: ${issues}`);
+  }
+  return parsed.data;
+}
+
+export class ApprovalQueue {
+  private actions = new Map<string, PendingAction>();
+  private listeners: ActionListener[] = [];
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(readonly policy: ApprovalPolicy = {}) {}
+
+  get ttlSeconds(): number {
+    return this.policy.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+  }
+
+  get useElicitation(): boolean {
+    return this.policy.elicitation !== false;
+  }
+
+  /**
+   * Whether a tool can need approval at all (so callers can skip computing the stake)
+   */
+  gates(tool: string): boolean {
+    const actions: readonly string[] = this.policy.actions || APPROVABLE_ACTIONS;
+    return this.policy.threshold !== undefined && actions.includes(tool);
+  }
+
+  /**
+   * Whether an action with this stake must wait for a human
+   */
+  requiresApproval(tool: string, stake: Stake): boolean {
+    if (!this.gates(tool)) {
+      return false;
+    }
+    return stake.amount >= this.policy.threshold!;
+  }
+
+  /**
+   * Park an action until it is approved, rejected or expires
+   */
+  park(tool: string, params: Record<string, any>, stake: Stake): PendingAction {
+    this.sweep();
+
+    const now = Math.floor(Date.now() / 1000);
+    const action: PendingAction = {
+      id: randomUUID(),
+      tool,
+      params,
+      stake,
+      status: 'pending',
+      createdAt: now,
+      expiresAt: now + this.ttlSeconds,
+    };
+
+    this.actions.set(action.id, action);
+    this.emit(action);
+    return action;
+  }
+
+  /**
+   * Get an action (expired ones are marked first)
+   */
+  get(id: string): PendingAction | undefined {
+    this.sweep();
+    return this.actions.get(id);
+  }
+
+  /**
+   * List actions, newest first
+   */
+  list(statuses: PendingActionStatus[] = ['pending']): PendingAction[] {
+    this.sweep();
+    return Array.from(this.actions.values())
+      .filter((action) => statuses.includes(action.status))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Settle a pending action
+   *
+   * @returns The action, or undefined if it is not pending any more
+   */
+  resolve(id: string, status: 'approved' | 'rejected', reason?: string): PendingAction | undefined {
+    const action = this.get(id);
+    if (!action || action.status !== 'pending') {
+      return undefined;
+    }
+
+    action.status = status;
+    action.resolvedAt = Math.floor(Date.now() / 1000);
+    action.reason = reason;
+    this.emit(action);
+    return action;
+  }
+
+  /**
+   * Expire overdue actions on a timer, so listeners hear about them
+   */
+  start(intervalMs = 30_000): void {
+    if (!this.sweepTimer) {
+      this.sweepTimer = setInterval(() => this.sweep(), intervalMs);
+      this.sweepTimer.unref();
+    }
+  }
+
+  stop(): void {
+    clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
+  }
+
+  /**
+   * Listen for parked, settled and expired actions
+   */
+  onChange(listener: ActionListener): void {
+    this.listeners.push(listener);
+  }
+
+  // Expire overdue actions and forget old settled ones
+  private sweep(): void {
+    const now = Math.floor(Date.now() / 1000);
+
+    for (const action of this.actions.values()) {
+      if (action.status === 'pending' && action.expiresAt <= now) {
+        action.status = 'expired';
+        action.resolvedAt = now;
+        this.emit(action);
+      } else if (action.status !== 'pending' && now - action.resolvedAt! > RESOLVED_RETENTION_SECONDS) {
+        this.actions.delete(action.id);
+      }
+    }
+  }
+
+  private emit(action: PendingAction): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(action);
+      } catch (error: any) {
+        console.error('[Approvals] Listener failed:', error.message);
+      }
+    }
+  }
+}
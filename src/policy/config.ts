@@ -0,0 +1,51 @@
+import * as fs from 'fs';
+import { z } from 'zod';
+import { X402Program } from '../solana/anchor.js';
+import { ApprovalQueue, parseApprovalPolicy } from './approvals.js';
+import { ExpiryPolicy, parseExpiryPolicy } from './expiry.js';
+import { parseTrustPolicy, ProviderTrustPolicy } from './providers.js';
+import { parseSpendingPolicy, SpendingPolicyEngine } from './spending.js';
+
+/**
+ * Policy file
+ *
+ *   {
+ *     "spending": { ... },  // Caps, budgets and wallet reserve
+ *     "trust": { ... },     // Provider/host allow and deny lists, host bindings, tiers
+ *     "approval": { ... },  // Thresholds above which a human must approve
+ *     "expiry": { ... }     // Default action for escrows about to expire
+ *   }
+ *
+ * All sections are optional; a missing section imposes no limits.
+ */
+
+/**
+ * Policies enforced before the agent commits funds
+ */
+export interface PolicySet {
+  spending: SpendingPolicyEngine;
+  trust: ProviderTrustPolicy;
+  approvals: ApprovalQueue;
+  expiry: ExpiryPolicy;
+}
+
+/**
+ * Load the policy file (no limits without one)
+ */
+export function loadPolicies(program: X402Program, policyPath?: string): PolicySet {
+  const raw = policyPath ? JSON.parse(fs.readFileSync(policyPath, 'utf-8')) : {};
+
+  return {
+    spending: new SpendingPolicyEngine(program, parseSpendingPolicy(raw.spending ?? {})),
+    trust: new ProviderTrustPolicy(parseTrustPolicy(raw.trust ?? {})),
+    approvals: new ApprovalQueue(parseApprovalPolicy(raw.approval ?? {})),
+    expiry: parseExpiryPolicy(raw.expiry ?? {}),
+  };
+}
+
+/**
+ * Format validation issues as "path: message" pairs for config errors
+ */
+export function formatIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+}
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { formatIssues } from './config.js';
+
+/**
+ * What to do with Active escrows as their dispute window closes
+ *
+ * The program rejects disputes after expiresAt, so an escrow whose data
+ * failed assessment has to be disputed before then. The default action
+ * depends on the escrow's stored assessment: passed (no refund due),
+ * failed (refund due) or unassessed.
+ */
+
+export const EXPIRY_ACTIONS = ['release', 'dispute', 'none'] as const;
+
+export type ExpiryAction = (typeof EXPIRY_ACTIONS)[number];
+
+export type AssessmentOutcome = 'passed' | 'failed' | 'unassessed';
+
+const expiryAction = z.enum(EXPIRY_ACTIONS);
+
+const expiryPolicySchema = z.object({
+  warnBeforeSeconds: z.number().int().nonnegative().optional(), // Warn this long before expiry (default: 3600)
+  actBeforeSeconds: z.number().int().positive().optional(), // Apply the default action this long before expiry (default: 600)
+  actions: z
+    .object({
+      passed: expiryAction.optional(), // Assessment found no refund due (default: none)
+      failed: expiryAction.optional(), // Assessment found a refund due (default: none)
+      unassessed: expiryAction.optional(), // No stored assessment (default: none)
+    })
+    .optional(),
+});
+
+export type ExpiryPolicy = z.infer<typeof expiryPolicySchema>;
+
+/**
+ * Validate an expiry policy object
+ */
+export function parseExpiryPolicy(raw: unknown): ExpiryPolicy {
+  const parsed = expiryPolicySchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = formatIssues(parsed.error);
+    throw new Error(`Invalid expiry policy: ${issues}`);
+  }
+  return parsed.data;
+}
@@ -0,0 +1,18 @@
+/**
+ * Policy guardrails applied before the agent commits funds
+ */
+
+// Spending caps, rolling budgets and wallet reserve
+export * from './spending.js';
+
+// Provider and host allow/deny lists, host bindings and trust tiers
+export * from './providers.js';
+
+// Human approval of high-value actions
+export * from './approvals.js';
+
+// Default actions for escrows about to expire
+export * from './expiry.js';
+
+// Policy file loading
+export * from './config.js';
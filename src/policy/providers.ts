@@ -0,0 +1,159 @@
+import { PublicKey } from '@solana/web3.js';
+import { z } from 'zod';
+import { formatIssues } from './config.js';
+
+/**
+ * Provider trust policy
+ *
+ * Organisation-level control over who the agent pays: allow and deny
+ * lists of provider wallets and API hosts, bindings from API host to the
+ * wallets allowed to be paid for it, and trust tiers that set the default
+ * time lock, amount cap and quality threshold per provider.
+ *
+ * Hosts match exactly, or by subdomain with a leading wildcard
+ * ("*.example.com" matches api.example.com but not example.com).
+ */
+
+const publicKey = z.string().refine((value) => {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid Solana public key');
+
+const host = z
+  .string()
+  .min(1)
+  .transform((value) => value.toLowerCase());
+
+const trustTierSchema = z.object({
+  timeLock: z.number().int().min(3600).max(2_592_000).optional(), // Default escrow expiry in seconds
+  maxAmount: z.number().positive().optional(), // Cap per escrow, in SOL
+  qualityThreshold: z.number().min(0).max(100).optional(), // Default for call_api_with_escrow
+});
+
+const trustPolicySchema = z
+  .object({
+    allowProviders: z.array(publicKey).optional(), // Only these providers can be paid
+    denyProviders: z.array(publicKey).optional(),
+    allowHosts: z.array(host).optional(), // Only these API hosts can be called
+    denyHosts: z.array(host).optional(),
+    hostBindings: z.record(z.union([publicKey, z.array(publicKey)])).optional(), // API host -> provider wallet(s)
+    requireHostBinding: z.boolean().optional(), // Refuse hosts without a binding
+    tiers: z.record(trustTierSchema).optional(),
+    providerTiers: z.record(z.string()).optional(), // Provider wallet -> tier name
+    defaultTier: z.string().optional(),
+  })
+  .superRefine((policy, ctx) => {
+    const tiers = policy.tiers || {};
+    if (policy.defaultTier && !tiers[policy.defaultTier]) {
+      ctx.addIssue({ code: 'custom', path: ['defaultTier'], message: `Unknown tier: ${policy.defaultTier}` });
+    }
+    for (const [provider, tier] of Object.entries(policy.providerTiers || {})) {
+      if (!tiers[tier]) {
+        ctx.addIssue({ code: 'custom', path: ['providerTiers', provider], message: `Unknown tier: ${tier}` });
+      }
+    }
+  });
+
+export type TrustTier = z.infer<typeof trustTierSchema>;
+export type TrustPolicy = z.infer<typeof trustPolicySchema>;
+
+export interface TrustRequest {
+  provider: string; // Provider wallet address
+  apiUrl?: string; // Checked against host lists and bindings when set
+}
+
+export interface TrustDecision {
+  allowed: boolean;
+  rule?: string; // Rule that refused the provider, e.g. 'denyProviders' or 'hostBindings.api.example.com'
+  reason?: string;
+  tier?: string; // Tier name, if the provider has one
+  defaults: TrustTier; // Tier defaults (empty without a tier)
+}
+
+/**
+ * Validate a trust policy object
+ */
+export function parseTrustPolicy(raw: unknown): TrustPolicy {
+  const parsed = trustPolicySchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = formatIssues(parsed.error);
+    throw new Error(`Invalid trust policy: ${issues}`);
+  }
+  return parsed.data;
+}
+
+export class ProviderTrustPolicy {
+  constructor(readonly policy: TrustPolicy = {}) {}
+
+  /**
+   * Tier of a provider (its own entry, else the default tier)
+   */
+  tierOf(provider: string): string | undefined {
+    return this.policy.providerTiers?.[provider] || this.policy.defaultTier;
+  }
+
+  /**
+   * Check whether a provider (and API URL) may be paid
+   */
+  evaluate(request: TrustRequest): TrustDecision {
+    const { provider, apiUrl } = request;
+    const tier = this.tierOf(provider);
+    const defaults = (tier && this.policy.tiers?.[tier]) || {};
+    const deny = (rule: string, reason: string): TrustDecision => ({ allowed: false, rule, reason, tier, defaults });
+
+    if (this.policy.denyProviders?.includes(provider)) {
+      return deny('denyProviders', `Provider ${provider} is on the denylist`);
+    }
+    if (this.policy.allowProviders && !this.policy.allowProviders.includes(provider)) {
+      return deny('allowProviders', `Provider ${provider} is not on the allowlist`);
+    }
+
+    if (apiUrl) {
+      const hostname = new URL(apiUrl).hostname.toLowerCase();
+
+      if (this.policy.denyHosts?.some((pattern) => matchesHost(hostname, pattern))) {
+        return deny('denyHosts', `API host ${hostname} is on the denylist`);
+      }
+      if (this.policy.allowHosts && !this.policy.allowHosts.some((pattern) => matchesHost(hostname, pattern))) {
+        return deny('allowHosts', `API host ${hostname} is not on the allowlist`);
+      }
+
+      const binding = this.bindingFor(hostname);
+      if (binding) {
+        if (!binding.wallets.includes(provider)) {
+          return deny(
+            `hostBindings.${binding.pattern}`,
+            `API host ${hostname} is bound to ${binding.wallets.join(', ')}, not provider ${provider}`
+          );
+        }
+      } else if (this.policy.requireHostBinding) {
+        return deny('requireHostBinding', `API host ${hostname} has no provider wallet binding`);
+      }
+    }
+
+    return { allowed: true, tier, defaults };
+  }
+
+  // Exact bindings win over wildcards
+  private bindingFor(hostname: string): { pattern: string; wallets: string[] } | undefined {
+    const bindings = Object.entries(this.policy.hostBindings || {}).map(([pattern, wallets]) => ({
+      pattern: pattern.toLowerCase(),
+      wallets: Array.isArray(wallets) ? wallets : [wallets],
+    }));
+
+    return (
+      bindings.find((b) => b.pattern === hostname) || bindings.find((b) => matchesHost(hostname, b.pattern))
+    );
+  }
+}
+
+function matchesHost(hostname: string, pattern: string): boolean {
+  if (pattern.startsWith('*.')) {
+    return hostname.endsWith(pattern.slice(1));
+  }
+  return hostname === pattern;
+}
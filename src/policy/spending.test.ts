@@ -0,0 +1,121 @@
+import { describe, expect, it } from '@jest/globals';
+import { LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { X402Program } from '../solana/anchor.js';
+import { parseSpendingPolicy, SpendingPolicy, SpendingPolicyEngine, SpendRecord, SpendSource } from './spending.js';
+
+const PROVIDER = PublicKey.unique().toBase58();
+
+function fakeProgram(balance = 100): X402Program {
+  const provider = {
+    publicKey: PublicKey.unique(),
+    connection: { getBalance: async () => balance * LAMPORTS_PER_SOL },
+  };
+  return { program: { provider } } as unknown as X402Program;
+}
+
+function source(spends: SpendRecord[]): SpendSource {
+  return { getSpends: async (since) => spends.filter((s) => s.createdAt >= since) };
+}
+
+function spend(amount: number, ageSeconds = 0, provider = PROVIDER): SpendRecord {
+  return {
+    transactionId: `tx-${Math.random()}`,
+    provider,
+    amount,
+    createdAt: Math.floor(Date.now() / 1000) - ageSeconds,
+  };
+}
+
+function engine(policy: SpendingPolicy, spends: SpendRecord[] = [], balance?: number): SpendingPolicyEngine {
+  return new SpendingPolicyEngine(fakeProgram(balance), parseSpendingPolicy(policy), [source(spends)]);
+}
+
+describe('parseSpendingPolicy', () => {
+  it('rejects rules the engine cannot enforce', () => {
+    expect(() => parseSpendingPolicy({ currencies: { USDC: { maxPerEscrow: 5 } } })).toThrow(
+      "Invalid spending policy: (root): Unrecognized key(s) in object: 'currencies'"
+    );
+    expect(() => parseSpendingPolicy({ budgets: { daily: -1 } })).toThrow('budgets.daily');
+  });
+});
+
+describe('SpendingPolicyEngine', () => {
+  it('allows anything without a policy', async () => {
+    const decision = await engine({}).evaluate({ amount: 1000, provider: PROVIDER });
+
+    expect(decision.allowed).toBe(true);
+    expect(decision.reservation).toBeDefined();
+  });
+
+  it('enforces the overall and per-provider per-escrow caps', async () => {
+    const policy = { maxPerEscrow: 1, providers: { [PROVIDER]: { maxPerEscrow: 0.5 } } };
+
+    expect(await engine(policy).check({ amount: 2 })).toMatchObject({ allowed: false, rule: 'maxPerEscrow' });
+    expect(await engine(policy).check({ amount: 0.8, provider: PROVIDER })).toMatchObject({
+      allowed: false,
+      rule: `providers.${PROVIDER}.maxPerEscrow`,
+    });
+    expect(await engine(policy).check({ amount: 0.8 })).toEqual({ allowed: true });
+  });
+
+  it('counts only spends inside each rolling window', async () => {
+    const policy = { budgets: { hourly: 1, daily: 2 } };
+    const spends = [spend(0.6, 60), spend(1, 2 * 3600)];
+
+    expect(await engine(policy, spends).check({ amount: 0.5 })).toMatchObject({
+      allowed: false,
+      rule: 'budgets.hourly',
+    });
+    expect(await engine(policy, spends).check({ amount: 0.3 })).toEqual({ allowed: true });
+    expect(await engine(policy, [...spends, spend(0.5, 3 * 3600)]).check({ amount: 0.3 })).toMatchObject({
+      allowed: false,
+      rule: 'budgets.daily',
+    });
+  });
+
+  it('applies the default provider cap to providers without their own', async () => {
+    const other = PublicKey.unique().toBase58();
+    const policy = { defaultProviderCap: { daily: 1 } };
+    const spends = [spend(0.8, 60, other)];
+
+    expect(await engine(policy, spends).check({ amount: 0.5, provider: other })).toMatchObject({
+      allowed: false,
+      rule: `providers.${other}.daily`,
+    });
+    expect(await engine(policy, spends).check({ amount: 0.5, provider: PROVIDER })).toEqual({ allowed: true });
+  });
+
+  it('holds the budget of an allowed spend until it is recorded or released', async () => {
+    const policy = engine({ budgets: { daily: 1 } });
+
+    const [first, second] = await Promise.all([
+      policy.evaluate({ amount: 0.7, provider: PROVIDER }),
+      policy.evaluate({ amount: 0.7, provider: PROVIDER }),
+    ]);
+    expect(first.allowed).toBe(true);
+    expect(second).toMatchObject({ allowed: false, rule: 'budgets.daily' });
+    expect(policy.lastDenied).toMatchObject({ amount: 0.7, rule: 'budgets.daily' });
+
+    policy.release(first.reservation);
+    expect((await policy.evaluate({ amount: 0.7 })).allowed).toBe(true);
+  });
+
+  it('counts a recorded spend once when it settles its reservation', async () => {
+    const policy = engine({ budgets: { daily: 1 } });
+
+    const decision = await policy.evaluate({ amount: 0.4, provider: PROVIDER });
+    policy.record({ ...spend(0.4), transactionId: 'tx-recorded' }, decision.reservation);
+
+    const status = await policy.getStatus(PROVIDER);
+    expect(status.windows.daily).toEqual({ limit: 1, spent: 0.4, remaining: 0.6 });
+    expect(status.provider?.windows.daily.spent).toBe(0.4);
+  });
+
+  it('keeps the wallet reserve, counting reserved escrows', async () => {
+    const policy = engine({ minWalletReserve: 1 }, [], 3);
+
+    expect((await policy.evaluate({ amount: 1.5 })).allowed).toBe(true);
+    expect(await policy.evaluate({ amount: 1 })).toMatchObject({ allowed: false, rule: 'minWalletReserve' });
+    expect(await policy.getReserveStatus()).toEqual({ balance: 3, minWalletReserve: 1, spendable: 2 });
+  });
+});
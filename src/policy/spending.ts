@@ -0,0 +1,385 @@
+import { randomUUID } from 'crypto';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { z } from 'zod';
+import { X402Program } from '../solana/anchor.js';
+import { formatIssues } from './config.js';
+
+/**
+ * Spending policy engine
+ *
+ * Sits in front of escrow creation and enforces per-escrow caps, rolling
+ * hourly/daily/monthly budgets, per-provider caps and a minimum SOL
+ * reserve left in the wallet. Escrows are SOL only, so every amount is
+ * in SOL.
+ */
+
+const budgetLimitsSchema = z.object({
+  hourly: z.number().positive().optional(),
+  daily: z.number().positive().optional(),
+  monthly: z.number().positive().optional(), // Rolling 30 days
+});
+
+const providerCapSchema = budgetLimitsSchema.extend({
+  maxPerEscrow: z.number().positive().optional(),
+});
+
+// Strict, so rules the engine can't enforce (e.g. token budgets) fail to load
+const spendingPolicySchema = z
+  .object({
+    maxPerEscrow: z.number().positive().optional(),
+    budgets: budgetLimitsSchema.optional(),
+    defaultProviderCap: providerCapSchema.optional(), // Applies to providers without their own entry
+    providers: z.record(providerCapSchema).optional(), // Keyed by provider wallet address
+    minWalletReserve: z.number().nonnegative().optional(), // In SOL, kept for fees and rent
+  })
+  .strict();
+
+export type BudgetLimits = z.infer<typeof budgetLimitsSchema>;
+export type ProviderCap = z.infer<typeof providerCapSchema>;
+export type SpendingPolicy = z.infer<typeof spendingPolicySchema>;
+
+export type BudgetWindow = 'hourly' | 'daily' | 'monthly';
+
+export const BUDGET_WINDOWS: Record<BudgetWindow, number> = {
+  hourly: 3600,
+  daily: 86_400,
+  monthly: 30 * 86_400,
+};
+
+/**
+ * Funds committed to an escrow
+ */
+export interface SpendRecord {
+  transactionId: string;
+  provider: string; // API provider wallet address
+  amount: number; // In SOL
+  createdAt: number; // Unix timestamp
+}
+
+/**
+ * Where past spending comes from (the engine also remembers its own)
+ */
+export interface SpendSource {
+  getSpends(since: number): Promise<SpendRecord[]>;
+}
+
+export interface SpendRequest {
+  amount: number; // In SOL
+  provider?: string; // Provider caps are skipped when unset
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  rule?: string; // Rule that denied the spend, e.g. 'budgets.daily' or 'providers.<pubkey>.daily'
+  reason?: string;
+  reservation?: string; // Holds an allowed spend's budget until it is recorded or released
+}
+
+export interface PolicyDenial extends SpendRequest {
+  rule: string;
+  reason: string;
+  at: number; // Unix timestamp
+}
+
+export interface WindowStatus {
+  limit?: number;
+  spent: number;
+  remaining?: number; // Unset when the window has no limit
+}
+
+export interface BudgetStatus {
+  maxPerEscrow?: number;
+  windows: Record<BudgetWindow, WindowStatus>;
+  provider?: {
+    address: string;
+    maxPerEscrow?: number;
+    windows: Record<BudgetWindow, WindowStatus>;
+  };
+}
+
+// Escrow accounts change rarely, don't rescan the program on every check
+const CHAIN_CACHE_MS = 15_000;
+
+/**
+ * Escrows of the agent that are still on-chain
+ *
+ * Closed escrow accounts are gone from the program, so this only sees
+ * open escrows; spends recorded by the engine cover the rest while the
+ * server runs.
+ */
+export class ChainSpendSource implements SpendSource {
+  private cache?: { at: number; spends: SpendRecord[] };
+
+  constructor(private program: X402Program) {}
+
+  async getSpends(since: number): Promise<SpendRecord[]> {
+    if (!this.cache || Date.now() - this.cache.at > CHAIN_CACHE_MS) {
+      const agent = this.program.program.provider.publicKey!;
+      const accounts = await this.program.listEscrows({ agent });
+
+      const spends = accounts.map(({ account }) => ({
+        transactionId: account.transactionId,
+        provider: account.api.toBase58(),
+        amount: Number(account.amount) / LAMPORTS_PER_SOL,
+        createdAt: Number(account.createdAt),
+      }));
+
+      this.cache = { at: Date.now(), spends };
+    }
+
+    return this.cache.spends.filter((spend) => spend.createdAt >= since);
+  }
+}
+
+/**
+ * Validate a spending policy object
+ */
+export function parseSpendingPolicy(raw: unknown): SpendingPolicy {
+  const parsed = spendingPolicySchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = formatIssues(parsed.error);
+    throw new Error(`Invalid spending policy: ${issues}`);
+  }
+  return parsed.data;
+}
+
+export class SpendingPolicyEngine {
+  private recorded = new Map<string, SpendRecord>();
+  private reserved = new Map<string, SpendRecord>(); // Allowed spends not sent yet, by reservation
+  private evaluating: Promise<unknown> = Promise.resolve();
+  private lastDenial?: PolicyDenial;
+
+  constructor(
+    private program: X402Program,
+    readonly policy: SpendingPolicy = {},
+    private sources: SpendSource[] = [new ChainSpendSource(program)]
+  ) {}
+
+  /**
+   * Add a source of past spending (e.g. a persistent ledger)
+   */
+  addSource(source: SpendSource): void {
+    this.sources.push(source);
+  }
+
+  /**
+   * The most recent denial, if any
+   */
+  get lastDenied(): PolicyDenial | undefined {
+    return this.lastDenial;
+  }
+
+  /**
+   * Check a spend the agent is about to make, remembering any denial
+   *
+   * An allowed spend is reserved: it counts toward budgets until it is
+   * recorded or released, so concurrent spends can't both pass a check
+   * only one of them fits in. Evaluations run one at a time.
+   */
+  async evaluate(request: SpendRequest): Promise<PolicyDecision> {
+    const run = this.evaluating.then(async () => {
+      const decision = await this.check(request);
+      const now = Math.floor(Date.now() / 1000);
+
+      if (!decision.allowed) {
+        this.lastDenial = { ...request, rule: decision.rule!, reason: decision.reason!, at: now };
+        return decision;
+      }
+
+      const reservation = randomUUID();
+      this.reserved.set(reservation, {
+        transactionId: `reservation:${reservation}`,
+        provider: request.provider || '',
+        amount: request.amount,
+        createdAt: now,
+      });
+      return { ...decision, reservation };
+    });
+
+    this.evaluating = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Remember a spend so budgets see it before the chain does
+   *
+   * @param reservation - Reservation from evaluate that the spend settles
+   */
+  record(spend: SpendRecord, reservation?: string): void {
+    this.recorded.set(spend.transactionId, spend);
+    this.release(reservation);
+  }
+
+  /**
+   * Give back a reservation whose spend didn't happen (no-op once recorded)
+   */
+  release(reservation?: string): void {
+    if (reservation) {
+      this.reserved.delete(reservation);
+    }
+  }
+
+  /**
+   * Spending and headroom (and optionally one provider's)
+   */
+  async getStatus(provider?: string): Promise<BudgetStatus> {
+    const spends = await this.spendsFor(BUDGET_WINDOWS.monthly);
+
+    const status: BudgetStatus = {
+      maxPerEscrow: this.policy.maxPerEscrow,
+      windows: windowStatus(spends, this.policy.budgets),
+    };
+
+    if (provider) {
+      const cap = this.providerCap(provider);
+      status.provider = {
+        address: provider,
+        maxPerEscrow: cap?.maxPerEscrow,
+        windows: windowStatus(
+          spends.filter((s) => s.provider === provider),
+          cap
+        ),
+      };
+    }
+
+    return status;
+  }
+
+  /**
+   * SOL that can be spent before hitting the wallet reserve
+   */
+  async getReserveStatus(): Promise<{ balance: number; minWalletReserve: number; spendable: number }> {
+    const provider = this.program.program.provider;
+    const balance = (await provider.connection.getBalance(provider.publicKey!, 'confirmed')) / LAMPORTS_PER_SOL;
+    const minWalletReserve = this.policy.minWalletReserve ?? 0;
+
+    return {
+      balance,
+      minWalletReserve,
+      spendable: Math.max(0, balance - minWalletReserve),
+    };
+  }
+
+  /**
+   * Check a spend against the policy without recording anything
+   */
+  async check(request: SpendRequest): Promise<PolicyDecision> {
+    const { amount, provider } = request;
+    const rules = this.policy;
+    const cap = provider ? this.providerCap(provider) : undefined;
+
+    if (rules.maxPerEscrow !== undefined && amount > rules.maxPerEscrow) {
+      return deny('maxPerEscrow', `${amount} SOL exceeds the per-escrow cap of ${rules.maxPerEscrow} SOL`);
+    }
+    if (cap?.maxPerEscrow !== undefined && amount > cap.maxPerEscrow) {
+      return deny(
+        `providers.${provider}.maxPerEscrow`,
+        `${amount} SOL exceeds the per-escrow cap of ${cap.maxPerEscrow} SOL for provider ${provider}`
+      );
+    }
+
+    if (this.policy.minWalletReserve !== undefined) {
+      const reserve = await this.getReserveStatus();
+      // Reserved escrows haven't left the wallet yet
+      const needed = amount + sum(Array.from(this.reserved.values()));
+      if (reserve.balance - needed < reserve.minWalletReserve) {
+        return deny(
+          'minWalletReserve',
+          `Escrow would leave ${round(reserve.balance - needed)} SOL in the wallet, below the ${reserve.minWalletReserve} SOL reserve`
+        );
+      }
+    }
+
+    if (!rules.budgets && !cap) {
+      return { allowed: true };
+    }
+
+    const spends = await this.spendsFor(BUDGET_WINDOWS.monthly);
+    const now = Math.floor(Date.now() / 1000);
+
+    for (const window of Object.keys(BUDGET_WINDOWS) as BudgetWindow[]) {
+      const since = now - BUDGET_WINDOWS[window];
+      const inWindow = spends.filter((s) => s.createdAt >= since);
+
+      const limit = rules.budgets?.[window];
+      if (limit !== undefined) {
+        const spent = sum(inWindow);
+        if (spent + amount > limit) {
+          return deny(
+            `budgets.${window}`,
+            `${window} budget of ${limit} SOL would be exceeded (${round(spent)} spent, ${round(
+              Math.max(0, limit - spent)
+            )} left)`
+          );
+        }
+      }
+
+      const providerLimit = cap?.[window];
+      if (providerLimit !== undefined) {
+        const spent = sum(inWindow.filter((s) => s.provider === provider));
+        if (spent + amount > providerLimit) {
+          return deny(
+            `providers.${provider}.${window}`,
+            `${window} cap of ${providerLimit} SOL for provider ${provider} would be exceeded (${round(
+              spent
+            )} spent, ${round(Math.max(0, providerLimit - spent))} left)`
+          );
+        }
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  private providerCap(provider: string): ProviderCap | undefined {
+    return this.policy.providers?.[provider] || this.policy.defaultProviderCap;
+  }
+
+  private async spendsFor(windowSeconds: number): Promise<SpendRecord[]> {
+    const since = Math.floor(Date.now() / 1000) - windowSeconds;
+    const merged = new Map<string, SpendRecord>();
+
+    for (const source of this.sources) {
+      for (const spend of await source.getSpends(since)) {
+        merged.set(spend.transactionId, spend);
+      }
+    }
+    for (const spend of [...this.recorded.values(), ...this.reserved.values()]) {
+      if (spend.createdAt >= since) {
+        merged.set(spend.transactionId, spend);
+      }
+    }
+
+    return Array.from(merged.values());
+  }
+}
+
+function windowStatus(spends: SpendRecord[], limits?: BudgetLimits): Record<BudgetWindow, WindowStatus> {
+  const now = Math.floor(Date.now() / 1000);
+  const status = {} as Record<BudgetWindow, WindowStatus>;
+
+  for (const window of Object.keys(BUDGET_WINDOWS) as BudgetWindow[]) {
+    const spent = round(sum(spends.filter((s) => s.createdAt >= now - BUDGET_WINDOWS[window])));
+    const limit = limits?.[window];
+    status[window] = {
+      limit,
+      spent,
+      remaining: limit !== undefined ? round(Math.max(0, limit - spent)) : undefined,
+    };
+  }
+
+  return status;
+}
+
+function deny(rule: string, reason: string): PolicyDecision {
+  return { allowed: false, rule, reason };
+}
+
+function sum(spends: SpendRecord[]): number {
+  return spends.reduce((total, s) => total + s.amount, 0);
+}
+
+// Avoid float noise like 0.30000000000000004 in messages
+function round(value: number): number {
+  return Math.round(value * 1e9) / 1e9;
+}
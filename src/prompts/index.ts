@@ -0,0 +1,223 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { PublicKey } from '@solana/web3.js';
+import { X402Program } from '../solana/anchor.js';
+import * as tools from '../tools/index.js';
+
+/**
+ * MCP prompts for guided escrow workflows
+ *
+ * Each prompt embeds live on-chain data (reputation, penalties, open
+ * escrows) so the agent starts from the current state instead of
+ * re-querying it.
+ */
+
+export const PROMPT_DEFINITIONS: Prompt[] = [
+  {
+    name: 'protected_api_call',
+    description:
+      'Pay for an API call through escrow: check the provider, create the escrow, call the API, assess quality, then release or dispute.',
+    arguments: [
+      { name: 'apiUrl', description: 'API endpoint to call', required: true },
+      { name: 'apiProvider', description: 'API provider wallet address', required: true },
+      { name: 'amount', description: 'Payment amount in SOL (default: 0.001)', required: false },
+      { name: 'expectedCriteria', description: 'Comma-separated fields the response must contain', required: false },
+      { name: 'qualityThreshold', description: 'Minimum acceptable quality score 0-100 (default: 50)', required: false },
+    ],
+  },
+  {
+    name: 'review_open_disputes',
+    description:
+      "Review the agent's disputed and soon-to-expire escrows and decide how to resolve each one.",
+    arguments: [],
+  },
+  {
+    name: 'provider_due_diligence',
+    description: 'Assess whether an API provider can be trusted before paying it, from its reputation, penalties and past escrows.',
+    arguments: [{ name: 'apiProvider', description: 'API provider wallet address', required: true }],
+  },
+];
+
+// Active escrows expiring within this window are flagged in review_open_disputes
+const EXPIRY_WARNING_SECONDS = 3600;
+
+/**
+ * Render a prompt with live data
+ *
+ * @param name - Prompt name
+ * @param args - Prompt arguments (MCP prompt arguments are strings)
+ */
+export async function getPrompt(
+  name: string,
+  args: Record<string, string> = {},
+  program: X402Program
+): Promise<GetPromptResult> {
+  switch (name) {
+    case 'protected_api_call':
+      return protectedApiCall(args, program);
+    case 'review_open_disputes':
+      return reviewOpenDisputes(program);
+    case 'provider_due_diligence':
+      return providerDueDiligence(args, program);
+    default:
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+}
+
+async function protectedApiCall(args: Record<string, string>, program: X402Program): Promise<GetPromptResult> {
+  const apiUrl = requireArgument(args, 'apiUrl');
+  const apiProvider = requireProvider(args);
+  const amount = args.amount ? parseFloat(args.amount) : 0.001;
+  const qualityThreshold = args.qualityThreshold ? parseInt(args.qualityThreshold, 10) : 50;
+  const expectedCriteria = args.expectedCriteria
+    ? args.expectedCriteria.split(',').map((c) => c.trim()).filter(Boolean)
+    : [];
+
+  if (isNaN(amount) || amount <= 0) {
+    throw new McpError(ErrorCode.InvalidParams, 'amount must be a positive number');
+  }
+  if (isNaN(qualityThreshold) || qualityThreshold < 0 || qualityThreshold > 100) {
+    throw new McpError(ErrorCode.InvalidParams, 'qualityThreshold must be between 0 and 100');
+  }
+
+  const [reputation, penalties, openWithProvider] = await Promise.all([
+    tools.getApiReputation({ apiProvider }, program),
+    tools.getProviderPenalties({ apiProvider }, program),
+    tools.listEscrows({ apiProvider, status: ['Active', 'Disputed'], limit: 100 }, program),
+  ]);
+
+  const text = `You are paying for an API call through an x402 escrow. Follow these steps in order and stop if any step fails.
+
+API: ${apiUrl}
+Provider: ${apiProvider}
+Amount: ${amount} SOL
+Quality threshold: ${qualityThreshold}
+${expectedCriteria.length > 0 ? `Expected fields: ${expectedCriteria.join(', ')}\n` : ''}
+## Current provider data
+
+Reputation:
+${json(reputation)}
+
+Penalties:
+${json(penalties)}
+
+Open escrows with this provider:
+${json(openWithProvider.success ? openWithProvider.escrows : openWithProvider.error)}
+
+## Steps
+
+1. Decide whether to proceed. Do not pay if the provider is suspended or its recommendation is "avoid". If it is "caution" (new or mixed history), keep the amount small.
+2. Call \`call_api_with_escrow\` with apiUrl, apiProvider, amount${expectedCriteria.length > 0 ? ', expectedCriteria' : ''} and qualityThreshold ${qualityThreshold}. This creates the escrow, calls the API and assesses the response.
+3. If the quality score is at or above ${qualityThreshold}, call \`release_funds\` with the transactionId.
+4. If it is below ${qualityThreshold}, call \`file_dispute\` with the transactionId, the quality score and the reasoning, then \`resolve_dispute\` with the API response as evidence.
+5. Report the transactionId, quality score, and how much was paid or refunded.`;
+
+  return {
+    description: `Protected call to ${apiUrl}`,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
+
+async function reviewOpenDisputes(program: X402Program): Promise<GetPromptResult> {
+  const open = await tools.listEscrows({ status: ['Active', 'Disputed'], limit: 100 }, program);
+
+  if (!open.success) {
+    throw new McpError(ErrorCode.InternalError, open.error || 'Failed to list escrows');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const disputed = open.escrows!.filter((e) => e.status === 'Disputed');
+  const expiring = open.escrows!.filter(
+    (e) => e.status === 'Active' && e.expiresAt! - now < EXPIRY_WARNING_SECONDS
+  );
+
+  // Reputation of every provider involved, fetched once each
+  const providers = Array.from(new Set([...disputed, ...expiring].map((e) => e.api!)));
+  const reputations = await Promise.all(
+    providers.map(async (apiProvider) => {
+      const { success: _, ...reputation } = await tools.getApiReputation({ apiProvider }, program);
+      return { apiProvider, ...reputation };
+    })
+  );
+
+  const text = `Review this agent's open escrows and settle each one.
+
+## Disputed escrows (${disputed.length})
+${json(disputed)}
+
+## Active escrows expiring within ${EXPIRY_WARNING_SECONDS / 60} minutes (${expiring.length})
+${json(expiring)}
+
+## Provider reputations
+${json(reputations)}
+
+## What to do
+
+- For each disputed escrow, use \`get_escrow_history\` to see what happened, then call \`resolve_dispute\` with the original API response as evidence if you still have it.
+- For each expiring escrow, decide whether the delivered data was acceptable: call \`release_funds\` if it was, otherwise \`file_dispute\` before it expires.
+- Summarize each decision with the transactionId, the provider and the amount.${
+    disputed.length === 0 && expiring.length === 0 ? '\n\nThere is nothing to settle right now; say so.' : ''
+  }`;
+
+  return {
+    description: `${disputed.length} disputed and ${expiring.length} expiring escrows`,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
+
+async function providerDueDiligence(args: Record<string, string>, program: X402Program): Promise<GetPromptResult> {
+  const apiProvider = requireProvider(args);
+
+  const [reputation, penalties, escrows] = await Promise.all([
+    tools.getApiReputation({ apiProvider }, program),
+    tools.getProviderPenalties({ apiProvider }, program),
+    tools.listEscrows({ apiProvider, limit: 100 }, program),
+  ]);
+
+  const text = `Assess whether API provider ${apiProvider} can be trusted with payments from this agent.
+
+## Reputation
+${json(reputation)}
+
+## Penalties
+${json(penalties)}
+
+## This agent's escrows with the provider
+${json(escrows.success ? { total: escrows.total, escrows: escrows.escrows } : escrows.error)}
+
+## Assessment
+
+Weigh the reputation score, dispute outcomes and average quality, any strikes or active suspension, and this agent's own history with the provider. Conclude with one of:
+- **trusted**: pay normally
+- **caution**: pay small amounts with a short time lock and a strict quality threshold
+- **avoid**: do not pay
+
+Give the recommendation, a suggested maximum amount per call, and the evidence behind it.`;
+
+  return {
+    description: `Due diligence on ${apiProvider}`,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
+
+function requireArgument(args: Record<string, string>, name: string): string {
+  const value = args[name]?.trim();
+  if (!value) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${name}`);
+  }
+  return value;
+}
+
+function requireProvider(args: Record<string, string>): string {
+  const apiProvider = requireArgument(args, 'apiProvider');
+  try {
+    new PublicKey(apiProvider);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid apiProvider public key: ${apiProvider}`);
+  }
+  return apiProvider;
+}
+
+function json(value: unknown): string {
+  return '```json\n' + JSON.stringify(value, null, 2) + '\n```';
+}
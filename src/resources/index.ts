@@ -0,0 +1,176 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ReadResourceResult, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { X402Program } from '../solana/anchor.js';
+import * as tools from '../tools/index.js';
+
+/**
+ * MCP resources for pinning live escrow state into a client's context
+ *
+ *   x402://escrow/{transactionId}   Decoded escrow account
+ *   x402://reputation/{pubkey}      Reputation of an agent or API provider
+ *   x402://agent/wallet             Agent wallet, balance and reputation
+ *   x402://idl                      x402Resolve program IDL
+ */
+
+export const RESOURCE_SCHEME = 'x402://';
+
+export const WALLET_RESOURCE_URI = 'x402://agent/wallet';
+export const IDL_RESOURCE_URI = 'x402://idl';
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'x402://escrow/{transactionId}',
+    name: 'Escrow',
+    description: 'Live decoded escrow account: status, amount, parties, expiry and dispute outcome',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'x402://reputation/{pubkey}',
+    name: 'Reputation',
+    description: 'On-chain reputation of an agent or API provider, with a trust recommendation',
+    mimeType: 'application/json',
+  },
+];
+
+const STATIC_RESOURCES: Resource[] = [
+  {
+    uri: WALLET_RESOURCE_URI,
+    name: 'Agent wallet',
+    description: 'Agent wallet address, SOL balance, reputation and open escrow count',
+    mimeType: 'application/json',
+  },
+  {
+    uri: IDL_RESOURCE_URI,
+    name: 'x402Resolve IDL',
+    description: 'Anchor IDL of the x402Resolve escrow program',
+    mimeType: 'application/json',
+  },
+];
+
+/**
+ * Resource URI of an escrow
+ */
+export function escrowResourceUri(transactionId: string): string {
+  return `${RESOURCE_SCHEME}escrow/${encodeURIComponent(transactionId)}`;
+}
+
+/**
+ * Resource URI of a reputation account
+ */
+export function reputationResourceUri(pubkey: string): string {
+  return `${RESOURCE_SCHEME}reputation/${pubkey}`;
+}
+
+/**
+ * Transaction ID from an escrow resource URI (undefined for other URIs)
+ */
+export function parseEscrowResourceUri(uri: string): string | undefined {
+  const prefix = `${RESOURCE_SCHEME}escrow/`;
+  if (!uri.startsWith(prefix) || uri.length === prefix.length) {
+    return undefined;
+  }
+  return decodeURIComponent(uri.slice(prefix.length));
+}
+
+/**
+ * List static resources plus the agent's open (Active or Disputed) escrows
+ */
+export async function listResources(program: X402Program): Promise<Resource[]> {
+  const open = await tools.listEscrows({ status: ['Active', 'Disputed'], limit: 100 }, program);
+
+  if (!open.success) {
+    throw new McpError(ErrorCode.InternalError, open.error || 'Failed to list escrows');
+  }
+
+  const escrows: Resource[] = open.escrows!.map((escrow) => ({
+    uri: escrowResourceUri(escrow.transactionId!),
+    name: `Escrow ${escrow.transactionId}`,
+    description: `${escrow.status} escrow of ${escrow.amount} ${escrow.currency} to ${escrow.api}, expires ${new Date(
+      escrow.expiresAt! * 1000
+    ).toISOString()}`,
+    mimeType: 'application/json',
+  }));
+
+  return [...STATIC_RESOURCES, ...escrows];
+}
+
+/**
+ * Read a resource, fetching account data from the chain
+ */
+export async function readResource(uri: string, program: X402Program): Promise<ReadResourceResult> {
+  const data = await resolveResource(uri, program);
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
+
+async function resolveResource(uri: string, program: X402Program): Promise<unknown> {
+  if (uri === IDL_RESOURCE_URI) {
+    return program.program.rawIdl;
+  }
+
+  if (uri === WALLET_RESOURCE_URI) {
+    return readWallet(program);
+  }
+
+  const transactionId = parseEscrowResourceUri(uri);
+  if (transactionId) {
+    const { success, error, ...escrow } = await tools.checkEscrowStatus({ transactionId }, program);
+    if (!success) {
+      throw new McpError(ErrorCode.InvalidParams, `Escrow not found: ${transactionId}${error ? ` (${error})` : ''}`);
+    }
+    return escrow;
+  }
+
+  const reputationPrefix = `${RESOURCE_SCHEME}reputation/`;
+  if (uri.startsWith(reputationPrefix)) {
+    const pubkey = uri.slice(reputationPrefix.length);
+    if (!isPublicKey(pubkey)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid public key: ${pubkey}`);
+    }
+
+    const { success, error, ...reputation } = await tools.getApiReputation({ apiProvider: pubkey }, program);
+    if (!success) {
+      throw new McpError(ErrorCode.InternalError, error || 'Failed to fetch reputation');
+    }
+    return { pubkey, ...reputation };
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+}
+
+async function readWallet(program: X402Program) {
+  const agent = program.program.provider.publicKey!;
+
+  const [lamports, reputation, open] = await Promise.all([
+    program.program.provider.connection.getBalance(agent, 'confirmed'),
+    tools.getAgentReputation(program),
+    tools.listEscrows({ status: ['Active', 'Disputed'], limit: 100 }, program),
+  ]);
+
+  const { success: _, error: __, ...reputationData } = reputation;
+
+  return {
+    address: agent.toBase58(),
+    balance: lamports / LAMPORTS_PER_SOL, // In SOL
+    reputation: reputation.success ? reputationData : undefined,
+    openEscrows: open.success ? open.total : undefined,
+  };
+}
+
+function isPublicKey(value: string): boolean {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,245 @@
+import { Ledger, LedgerEntry } from '../ledger/index.js';
+import { AssessmentOutcome, ExpiryAction, ExpiryPolicy } from '../policy/index.js';
+
+/**
+ * Notice about an escrow nearing or past expiry
+ */
+export interface ExpiryNotice {
+  type: 'expiry_warning' | 'expiry_action' | 'escrow_expired';
+  transactionId: string;
+  provider: string;
+  amount: number; // In SOL
+  currency: string;
+  expiresAt: number; // Unix timestamp
+  secondsLeft: number;
+  assessment: AssessmentOutcome;
+  action?: ExpiryAction; // The default action for this escrow
+  result?: any; // Result of the action's tool call (expiry_action)
+  attempt?: number; // Attempts at the action so far (expiry_action)
+  retryAt?: number; // Unix timestamp of the next attempt, if this one failed (expiry_action)
+}
+
+export type ExpiryListener = (notice: ExpiryNotice) => void;
+
+export interface ExpiryWatcherOptions {
+  checkIntervalMs?: number; // How often to check deadlines (default: 60000)
+}
+
+const DEFAULT_WARN_BEFORE_SECONDS = 3600;
+const DEFAULT_ACT_BEFORE_SECONDS = 600;
+
+// Failed actions are retried after 30s, doubling up to 5 minutes
+const RETRY_BASE_SECONDS = 30;
+const RETRY_MAX_SECONDS = 300;
+
+/**
+ * Watches the agent's Active escrows for approaching expiry
+ *
+ * Deadlines come from the ledger, whose statuses are kept current by
+ * reconciliation and escrow subscriptions. Each escrow gets one warning
+ * and, once inside the action window, its default action. A failed
+ * action (an RPC error, or a gated action parked for a human) is retried
+ * with backoff until it succeeds or the escrow expires; a parked action
+ * gets until its own expiry to be approved first. Actions run as regular
+ * tool calls, so trust, spending and approval policies apply.
+ */
+export class ExpiryWatcher {
+  private listeners: ExpiryListener[] = [];
+  private timer?: NodeJS.Timeout;
+  private checking = false;
+  private warned = new Set<string>();
+  private acted = new Set<string>(); // Action succeeded
+  private expired = new Set<string>(); // Final notice sent
+  private attempts = new Map<string, { count: number; retryAt: number }>(); // Failed actions
+
+  /**
+   * @param agent - Agent wallet address; only its escrows are watched
+   * @param execute - Runs a tool call for a default action
+   */
+  constructor(
+    private ledger: Ledger,
+    private agent: string,
+    private policy: ExpiryPolicy,
+    private execute: (tool: string, params: Record<string, any>) => Promise<any>,
+    private options: ExpiryWatcherOptions = {}
+  ) {}
+
+  get warnBeforeSeconds(): number {
+    return this.policy.warnBeforeSeconds ?? DEFAULT_WARN_BEFORE_SECONDS;
+  }
+
+  get actBeforeSeconds(): number {
+    return this.policy.actBeforeSeconds ?? DEFAULT_ACT_BEFORE_SECONDS;
+  }
+
+  /**
+   * Default action for an escrow with this assessment outcome
+   */
+  actionFor(outcome: AssessmentOutcome): ExpiryAction {
+    return this.policy.actions?.[outcome] ?? 'none';
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.check().catch((error) => console.error('[Expiry] Check failed:', error.message));
+    }, this.options.checkIntervalMs || 60_000);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Listen for warnings, actions taken and escrows that expired
+   */
+  onNotice(listener: ExpiryListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Warn about and act on escrows whose deadline is near
+   */
+  async check(): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+    this.checking = true;
+
+    try {
+      const now = Math.floor(Date.now() / 1000);
+      const active = this.ledger.query({ agent: this.agent, status: ['Active'] }).entries;
+
+      for (const entry of active) {
+        if (entry.expiresAt === undefined) {
+          continue;
+        }
+
+        const secondsLeft = entry.expiresAt - now;
+        const assessment = assessmentOf(entry);
+        const action = this.actionFor(assessment);
+
+        if (secondsLeft <= 0) {
+          // Past the dispute window; one final notice
+          if (!this.expired.has(entry.transactionId)) {
+            this.expired.add(entry.transactionId);
+            this.emit({ ...this.notice(entry, secondsLeft, assessment), type: 'escrow_expired' });
+          }
+          continue;
+        }
+
+        if (secondsLeft <= this.warnBeforeSeconds && !this.warned.has(entry.transactionId)) {
+          this.warned.add(entry.transactionId);
+          this.emit({ ...this.notice(entry, secondsLeft, assessment), type: 'expiry_warning', action });
+        }
+
+        const previous = this.attempts.get(entry.transactionId);
+        if (
+          secondsLeft <= this.actBeforeSeconds &&
+          action !== 'none' &&
+          !this.acted.has(entry.transactionId) &&
+          (!previous || now >= previous.retryAt)
+        ) {
+          const attempt = (previous?.count ?? 0) + 1;
+          const result = await this.apply(entry, action).catch((error) => ({ success: false, error: error.message }));
+
+          let retryAt: number | undefined;
+          if (result?.success === false) {
+            retryAt = retryTime(now, attempt, result);
+            this.attempts.set(entry.transactionId, { count: attempt, retryAt });
+            console.error(
+              `[Expiry] ${action} of escrow ${entry.transactionId} failed (attempt ${attempt}): ${result.error}`
+            );
+          } else {
+            this.acted.add(entry.transactionId);
+            this.attempts.delete(entry.transactionId);
+          }
+          this.emit({
+            ...this.notice(entry, secondsLeft, assessment),
+            type: 'expiry_action',
+            action,
+            result,
+            attempt,
+            retryAt: retryAt !== undefined && retryAt < entry.expiresAt ? retryAt : undefined,
+          });
+        }
+      }
+
+      // Forget escrows that settled
+      const open = new Set(active.map((entry) => entry.transactionId));
+      for (const seen of [this.warned, this.acted, this.expired, this.attempts]) {
+        for (const transactionId of seen.keys()) {
+          if (!open.has(transactionId)) seen.delete(transactionId);
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private apply(entry: LedgerEntry, action: ExpiryAction): Promise<any> {
+    if (action === 'release') {
+      return this.execute('release_funds', { transactionId: entry.transactionId });
+    }
+
+    // Dispute with the stored assessment, or a full refund claim without one
+    const assessment = entry.assessment;
+    return this.execute('file_dispute', {
+      transactionId: entry.transactionId,
+      qualityScore: assessment?.qualityScore ?? 0,
+      refundPercentage: assessment?.refundPercentage ?? 100,
+      evidence: {
+        reason: 'Dispute window closing',
+        apiUrl: entry.apiCall?.apiUrl,
+        apiError: entry.apiCall?.error,
+        expectedCriteria: assessment?.expectedCriteria,
+        rationale: assessment?.rationale,
+      },
+    });
+  }
+
+  private notice(
+    entry: LedgerEntry,
+    secondsLeft: number,
+    assessment: AssessmentOutcome
+  ): Omit<ExpiryNotice, 'type'> {
+    return {
+      transactionId: entry.transactionId,
+      provider: entry.provider,
+      amount: entry.amount,
+      currency: entry.currency,
+      expiresAt: entry.expiresAt!,
+      secondsLeft: Math.max(secondsLeft, 0),
+      assessment,
+    };
+  }
+
+  private emit(notice: ExpiryNotice): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(notice);
+      } catch (error: any) {
+        console.error('[Expiry] Listener failed:', error.message);
+      }
+    }
+  }
+}
+
+function assessmentOf(entry: LedgerEntry): AssessmentOutcome {
+  if (!entry.assessment) {
+    return 'unassessed';
+  }
+  return entry.assessment.refundPercentage > 0 ? 'failed' : 'passed';
+}
+
+// Back off exponentially; a parked action isn't duplicated while it can still be approved
+function retryTime(now: number, attempt: number, result: any): number {
+  const backoff = Math.min(RETRY_BASE_SECONDS * 2 ** (attempt - 1), RETRY_MAX_SECONDS);
+  const parkedUntil = result?.code === 'ApprovalRequired' ? Number(result.details?.expiresAt) || 0 : 0;
+  return Math.max(now + backoff, parkedUntil);
+}
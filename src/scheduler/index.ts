@@ -0,0 +1,6 @@
+/**
+ * Background jobs on the agent's escrows
+ */
+
+// Expiry warnings and default actions
+export * from './expiry.js';
@@ -0,0 +1,58 @@
+import { PublicKey } from '@solana/web3.js';
+import { loadKeypair } from '../solana/client.js';
+import { KeypairSigner } from './keypair.js';
+import { DEFAULT_KEYSTORE_DIR, keystorePath, KeystoreSigner } from './keystore.js';
+import { readPassphrase } from './passphrase.js';
+import { RemoteSigner } from './remote.js';
+import { Signer } from './signer.js';
+
+/**
+ * Agent wallet signer configured by environment variables
+ *
+ * In order of preference:
+ *
+ *   REMOTE_SIGNER_URL      Remote signing service (with REMOTE_SIGNER_PUBLIC_KEY)
+ *   AGENT_KEYSTORE         Encrypted keystore name or path, unlocked with
+ *                          AGENT_KEYSTORE_PASSPHRASE_FILE or a terminal prompt
+ *   AGENT_KEYPAIR_PATH     Plaintext JSON keypair file
+ *   AGENT_PRIVATE_KEY      Plaintext base58 secret key
+ */
+export async function loadAgentSigner(env: NodeJS.ProcessEnv = process.env): Promise<Signer> {
+  if (env.REMOTE_SIGNER_URL) {
+    if (!env.REMOTE_SIGNER_PUBLIC_KEY) {
+      throw new Error('REMOTE_SIGNER_PUBLIC_KEY is required with REMOTE_SIGNER_URL');
+    }
+    return new RemoteSigner({
+      url: env.REMOTE_SIGNER_URL,
+      publicKey: new PublicKey(env.REMOTE_SIGNER_PUBLIC_KEY),
+      apiKey: env.REMOTE_SIGNER_API_KEY,
+    });
+  }
+
+  if (env.AGENT_KEYSTORE) {
+    const file = keystorePath(env.AGENT_KEYSTORE, env.KEYSTORE_DIR || DEFAULT_KEYSTORE_DIR);
+    const passphrase = await readPassphrase({
+      file: env.AGENT_KEYSTORE_PASSPHRASE_FILE,
+      prompt: `Passphrase for ${file}: `,
+    });
+    try {
+      return await KeystoreSigner.unlock(file, passphrase);
+    } catch (error: any) {
+      throw new Error(`Failed to unlock keystore ${file}: ${error.message}`);
+    }
+  }
+
+  const key = env.AGENT_KEYPAIR_PATH || env.AGENT_PRIVATE_KEY;
+  if (!key) {
+    throw new Error(
+      'One of REMOTE_SIGNER_URL, AGENT_KEYSTORE, AGENT_KEYPAIR_PATH or AGENT_PRIVATE_KEY environment variables is required'
+    );
+  }
+
+  console.error('Warning: the agent key is in plaintext. Move it into a keystore with `kamiyo-mcp keys import`.');
+  try {
+    return new KeypairSigner(loadKeypair(key));
+  } catch (error: any) {
+    throw new Error(`Failed to load keypair: ${error.message}`);
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Agent wallet signers
+ *
+ * Everything that signs for the agent goes through a Signer. Use
+ * KeypairSigner for a key in memory, KeystoreSigner for a
+ * passphrase-encrypted keystore and RemoteSigner for a signing service
+ * (LocalSigningServer stands in for one in tests). loadAgentSigner
+ * picks one from the environment.
+ */
+
+export * from './signer.js';
+export * from './keypair.js';
+export * from './keystore.js';
+export * from './remote.js';
+export * from './local.js';
+export * from './passphrase.js';
+export * from './env.js';
@@ -0,0 +1,20 @@
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { signEd25519 } from '../solana/ed25519.js';
+import { Signer } from './signer.js';
+
+/**
+ * Signer holding a keypair in memory
+ */
+export class KeypairSigner implements Signer {
+  public readonly name: string = 'keypair';
+
+  constructor(private keypair: Keypair) {}
+
+  get publicKey(): PublicKey {
+    return this.keypair.publicKey;
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    return signEd25519(this.keypair, message);
+  }
+}
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { Keypair } from '@solana/web3.js';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { verifyEd25519 } from '../solana/ed25519.js';
+import {
+  decryptKeystore,
+  encryptKeystore,
+  KeystoreSigner,
+  keystorePath,
+  listKeystores,
+  readKeystore,
+  writeKeystore,
+} from './keystore.js';
+
+// Minimum scrypt cost the schema accepts, to keep the tests fast
+const FAST = { n: 16_384 };
+
+describe('keystore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kamiyo-keystore-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('decrypts to the keypair it encrypted', async () => {
+    const keypair = Keypair.generate();
+    const keystore = await encryptKeystore(keypair, 'correct horse', FAST);
+
+    expect(keystore.publicKey).toBe(keypair.publicKey.toBase58());
+    expect(keystore.ciphertext).not.toContain(Buffer.from(keypair.secretKey).toString('base64'));
+
+    const decrypted = await decryptKeystore(keystore, 'correct horse');
+    expect(Buffer.from(decrypted.secretKey).equals(Buffer.from(keypair.secretKey))).toBe(true);
+  });
+
+  it('fails with the wrong passphrase', async () => {
+    const keystore = await encryptKeystore(Keypair.generate(), 'correct horse', FAST);
+
+    await expect(decryptKeystore(keystore, 'wrong horse')).rejects.toThrow('Wrong passphrase or corrupted keystore');
+  });
+
+  it('fails when relabelled with another public key', async () => {
+    const keystore = await encryptKeystore(Keypair.generate(), 'correct horse', FAST);
+    const relabelled = { ...keystore, publicKey: Keypair.generate().publicKey.toBase58() };
+
+    await expect(decryptKeystore(relabelled, 'correct horse')).rejects.toThrow(
+      'Wrong passphrase or corrupted keystore'
+    );
+  });
+
+  it('rejects an empty passphrase', async () => {
+    await expect(encryptKeystore(Keypair.generate(), '', FAST)).rejects.toThrow('must not be empty');
+  });
+
+  it('writes owner-only files and unlocks them as a signer', async () => {
+    const keypair = Keypair.generate();
+    const file = keystorePath('agent', path.join(dir, 'keys'));
+    writeKeystore(file, await encryptKeystore(keypair, 'correct horse', FAST));
+
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    expect(fs.statSync(path.dirname(file)).mode & 0o777).toBe(0o700);
+    expect(readKeystore(file).publicKey).toBe(keypair.publicKey.toBase58());
+
+    const signer = await KeystoreSigner.unlock(file, 'correct horse');
+    const message = Buffer.from('transaction message');
+    expect(signer.name).toBe('keystore');
+    expect(signer.publicKey.equals(keypair.publicKey)).toBe(true);
+    expect(verifyEd25519(keypair.publicKey, message, await signer.signMessage(message))).toBe(true);
+
+    await expect(KeystoreSigner.unlock(file, 'wrong horse')).rejects.toThrow('Wrong passphrase');
+  });
+
+  it('lists keystores by name and flags invalid files', async () => {
+    const keypair = Keypair.generate();
+    writeKeystore(path.join(dir, 'agent.json'), await encryptKeystore(keypair, 'correct horse', FAST));
+    fs.writeFileSync(path.join(dir, 'broken.json'), JSON.stringify({ version: 2 }));
+
+    const [agent, broken] = listKeystores(dir);
+    expect(agent).toMatchObject({ name: 'agent', publicKey: keypair.publicKey.toBase58() });
+    expect(broken.name).toBe('broken');
+    expect(broken.error).toContain('Invalid keystore');
+  });
+});
@@ -0,0 +1,225 @@
+import { Keypair, PublicKey } from '@solana/web3.js';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { z } from 'zod';
+import { formatIssues } from '../policy/config.js';
+import { KeypairSigner } from './keypair.js';
+
+/**
+ * Passphrase-encrypted keystore
+ *
+ * The 64-byte secret key is encrypted with AES-256-GCM under a key
+ * derived from the passphrase with scrypt. The public key is bound as
+ * additional authenticated data, so a keystore can't be relabelled with
+ * another address. A wrong passphrase and a tampered file fail the same
+ * authentication check.
+ *
+ *   {
+ *     "version": 1,
+ *     "publicKey": "<base58>",
+ *     "createdAt": 1767225600,
+ *     "kdf": { "name": "scrypt", "salt": "<base64>", "n": 131072, "r": 8, "p": 1 },
+ *     "cipher": { "name": "aes-256-gcm", "iv": "<base64>", "tag": "<base64>" },
+ *     "ciphertext": "<base64>"
+ *   }
+ */
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+const base64 = z.string().regex(/^[A-Za-z0-9+/]*={0,2}$/, 'Expected base64');
+
+const keystoreSchema = z.object({
+  version: z.literal(1),
+  publicKey: z.string().min(32),
+  createdAt: z.number().int().optional(), // Unix timestamp
+  kdf: z.object({
+    name: z.literal('scrypt'),
+    salt: base64,
+    n: z.number().int().min(16_384).max(1_048_576),
+    r: z.number().int().min(1).max(32),
+    p: z.number().int().min(1).max(16),
+  }),
+  cipher: z.object({
+    name: z.literal('aes-256-gcm'),
+    iv: base64,
+    tag: base64,
+  }),
+  ciphertext: base64,
+});
+
+export type Keystore = z.infer<typeof keystoreSchema>;
+
+export interface KeystoreOptions {
+  n?: number; // scrypt cost (default: 131072)
+  r?: number; // scrypt block size (default: 8)
+  p?: number; // scrypt parallelism (default: 1)
+}
+
+/**
+ * Keystore file summary (no passphrase needed)
+ */
+export interface KeystoreInfo {
+  name: string; // File name without .json
+  path: string;
+  publicKey?: string;
+  createdAt?: number; // Unix timestamp
+  error?: string; // Set when the file isn't a valid keystore
+}
+
+// Used when KEYSTORE_DIR is unset
+export const DEFAULT_KEYSTORE_DIR = path.join(os.homedir(), '.kamiyo-mcp', 'keys');
+
+const DEFAULT_N = 131_072;
+const DEFAULT_R = 8;
+const DEFAULT_P = 1;
+
+/**
+ * Encrypt a keypair under a passphrase
+ */
+export async function encryptKeystore(
+  keypair: Keypair,
+  passphrase: string,
+  options: KeystoreOptions = {}
+): Promise<Keystore> {
+  if (!passphrase) {
+    throw new Error('Keystore passphrase must not be empty');
+  }
+
+  const kdf = {
+    name: 'scrypt' as const,
+    salt: crypto.randomBytes(32).toString('base64'),
+    n: options.n ?? DEFAULT_N,
+    r: options.r ?? DEFAULT_R,
+    p: options.p ?? DEFAULT_P,
+  };
+  const publicKey = keypair.publicKey.toBase58();
+  const iv = crypto.randomBytes(12);
+
+  const cipher = crypto.createCipheriv('aes-256-gcm', await deriveKey(passphrase, kdf), iv);
+  cipher.setAAD(Buffer.from(publicKey, 'utf-8'));
+  const ciphertext = Buffer.concat([cipher.update(keypair.secretKey), cipher.final()]);
+
+  return {
+    version: 1,
+    publicKey,
+    createdAt: Math.floor(Date.now() / 1000),
+    kdf,
+    cipher: { name: 'aes-256-gcm', iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64') },
+    ciphertext: ciphertext.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt a keystore
+ *
+ * @throws Error - Wrong passphrase, tampered keystore, or a key that doesn't match its public key
+ */
+export async function decryptKeystore(keystore: Keystore, passphrase: string): Promise<Keypair> {
+  const decipher = crypto.createDecipheriv(
+    'aes-256-gcm',
+    await deriveKey(passphrase, keystore.kdf),
+    Buffer.from(keystore.cipher.iv, 'base64')
+  );
+  decipher.setAAD(Buffer.from(keystore.publicKey, 'utf-8'));
+  decipher.setAuthTag(Buffer.from(keystore.cipher.tag, 'base64'));
+
+  let secretKey: Buffer;
+  try {
+    secretKey = Buffer.concat([decipher.update(Buffer.from(keystore.ciphertext, 'base64')), decipher.final()]);
+  } catch {
+    throw new Error('Wrong passphrase or corrupted keystore');
+  }
+
+  const keypair = Keypair.fromSecretKey(secretKey);
+
+  if (!keypair.publicKey.equals(new PublicKey(keystore.publicKey))) {
+    throw new Error('Keystore secret key does not match its public key');
+  }
+  return keypair;
+}
+
+/**
+ * Read and validate a keystore file
+ */
+export function readKeystore(file: string): Keystore {
+  const parsed = keystoreSchema.safeParse(JSON.parse(fs.readFileSync(file, 'utf-8')));
+  if (!parsed.success) {
+    throw new Error(`Invalid keystore ${file}: ${formatIssues(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Write a keystore file readable only by its owner
+ */
+export function writeKeystore(file: string, keystore: Keystore): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(file, JSON.stringify(keystore, null, 2) + '\n', { mode: 0o600 });
+  fs.chmodSync(file, 0o600); // mode only applies to new files
+}
+
+/**
+ * Path of a keystore given by name (a file in the keystore directory) or path
+ */
+export function keystorePath(nameOrPath: string, dir = DEFAULT_KEYSTORE_DIR): string {
+  if (nameOrPath.includes('/') || nameOrPath.includes('\\') || nameOrPath.endsWith('.json')) {
+    return nameOrPath;
+  }
+  return path.join(dir, `${nameOrPath}.json`);
+}
+
+/**
+ * Keystores in a directory, by name
+ */
+export function listKeystores(dir = DEFAULT_KEYSTORE_DIR): KeystoreInfo[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .map((file) => {
+      const info: KeystoreInfo = { name: file.slice(0, -'.json'.length), path: path.join(dir, file) };
+      try {
+        const keystore = readKeystore(info.path);
+        info.publicKey = keystore.publicKey;
+        info.createdAt = keystore.createdAt;
+      } catch (error: any) {
+        info.error = error.message;
+      }
+      return info;
+    });
+}
+
+/**
+ * Signer for a keypair unlocked from an encrypted keystore
+ */
+export class KeystoreSigner extends KeypairSigner {
+  public readonly name = 'keystore';
+
+  /**
+   * Decrypt a keystore file
+   */
+  static async unlock(file: string, passphrase: string): Promise<KeystoreSigner> {
+    return new KeystoreSigner(await decryptKeystore(readKeystore(file), passphrase));
+  }
+}
+
+async function deriveKey(passphrase: string, kdf: Keystore['kdf']): Promise<Buffer> {
+  return scrypt(passphrase.normalize('NFKC'), Buffer.from(kdf.salt, 'base64'), 32, {
+    N: kdf.n,
+    r: kdf.r,
+    p: kdf.p,
+    maxmem: 256 * kdf.n * kdf.r, // scrypt needs 128 * N * r bytes
+  });
+}
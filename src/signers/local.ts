@@ -0,0 +1,84 @@
+import { Keypair } from '@solana/web3.js';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { signEd25519 } from '../solana/ed25519.js';
+
+export interface LocalSigningServerOptions {
+  keypair?: Keypair; // Signing key (default: ephemeral)
+  apiKey?: string; // Bearer token required from clients if set
+  approve?: (message: Buffer) => boolean | Promise<boolean>; // Refuse to sign when false (default: sign everything)
+}
+
+/**
+ * In-process signing service stand-in
+ *
+ * Serves the RemoteSigner protocol from a local keypair, so the remote
+ * signing path can be tested without a deployed signing service. Listens
+ * on loopback only.
+ */
+export class LocalSigningServer {
+  public readonly keypair: Keypair;
+  private server?: http.Server;
+
+  constructor(private options: LocalSigningServerOptions = {}) {
+    this.keypair = options.keypair || Keypair.generate();
+  }
+
+  /**
+   * Start listening
+   *
+   * @param port - Port to listen on (default: any free port)
+   * @returns Base URL for RemoteSigner
+   */
+  async listen(port = 0): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => reply(res, 500, { error: error.message }));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, '127.0.0.1', () => resolve());
+    });
+
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+    this.server = undefined;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (req.method !== 'POST' || req.url !== '/sign') {
+      return reply(res, 404, { error: 'Not found' });
+    }
+    if (this.options.apiKey && req.headers.authorization !== `Bearer ${this.options.apiKey}`) {
+      return reply(res, 401, { error: 'Unauthorized' });
+    }
+
+    let raw = '';
+    for await (const chunk of req) {
+      raw += chunk;
+    }
+    const body = JSON.parse(raw);
+
+    if (body.public_key !== this.keypair.publicKey.toBase58()) {
+      return reply(res, 400, { error: `Unknown key ${body.public_key}` });
+    }
+    if (typeof body.message !== 'string') {
+      return reply(res, 400, { error: 'Missing message' });
+    }
+
+    const message = Buffer.from(body.message, 'base64');
+    if (this.options.approve && !(await this.options.approve(message))) {
+      return reply(res, 403, { error: 'Signing refused' });
+    }
+
+    reply(res, 200, { signature: signEd25519(this.keypair, message).toString('base64') });
+  }
+}
+
+function reply(res: http.ServerResponse, status: number, body: Record<string, unknown>): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
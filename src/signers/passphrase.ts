@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+
+export interface PassphraseOptions {
+  file?: string; // Read the passphrase from this file (first line)
+  prompt?: string; // Prompt shown on the terminal when there's no file
+  confirm?: boolean; // Ask twice, for new passphrases (default: false)
+}
+
+/**
+ * Read a keystore passphrase from a file, or prompt for it on the terminal
+ *
+ * Prompts go to stderr, as stdout may carry the MCP protocol. Without a
+ * file and a terminal (e.g. launched by an MCP client) there is no way to
+ * ask, so this fails.
+ */
+export async function readPassphrase(options: PassphraseOptions = {}): Promise<string> {
+  if (options.file) {
+    if ((fs.statSync(options.file).mode & 0o077) !== 0) {
+      console.error(`Warning: passphrase file ${options.file} is readable by other users (chmod 600 it)`);
+    }
+    const passphrase = fs.readFileSync(options.file, 'utf-8').split(/\r?\n/)[0];
+    if (!passphrase) {
+      throw new Error(`Passphrase file ${options.file} is empty`);
+    }
+    return passphrase;
+  }
+
+  if (!process.stdin.isTTY) {
+    throw new Error('No passphrase file given and no terminal to prompt on');
+  }
+
+  const passphrase = await promptHidden(options.prompt || 'Passphrase: ');
+  if (!passphrase) {
+    throw new Error('Passphrase must not be empty');
+  }
+  if (options.confirm && (await promptHidden('Repeat passphrase: ')) !== passphrase) {
+    throw new Error('Passphrases do not match');
+  }
+  return passphrase;
+}
+
+// Raw-mode read without echo; stdin is left paused and undecoded for the MCP transport
+function promptHidden(question: string): Promise<string> {
+  const stdin = process.stdin;
+
+  return new Promise((resolve, reject) => {
+    let value = '';
+
+    const finish = (error?: Error) => {
+      stdin.off('data', onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stderr.write('\n');
+      error ? reject(error) : resolve(value);
+    };
+
+    const onData = (chunk: Buffer) => {
+      for (const char of chunk.toString('utf-8')) {
+        if (char === '\r' || char === '\n') {
+          return finish();
+        }
+        if (char === '\u0003' || char === '\u0004') {
+          return finish(new Error('Cancelled'));
+        }
+        value = char === '\u007f' || char === '\b' ? value.slice(0, -1) : value + char;
+      }
+    };
+
+    process.stderr.write(question);
+    stdin.setRawMode(true);
+    stdin.on('data', onData);
+    stdin.resume();
+  });
+}
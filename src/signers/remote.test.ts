@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { signEd25519, verifyEd25519 } from '../solana/ed25519.js';
+import { KeypairSigner } from './keypair.js';
+import { LocalSigningServer, LocalSigningServerOptions } from './local.js';
+import { RemoteSigner } from './remote.js';
+import { signTransaction } from './signer.js';
+
+const message = Buffer.from('transaction message');
+
+function transfer(from: PublicKey): Transaction {
+  const tx = new Transaction().add(
+    SystemProgram.transfer({ fromPubkey: from, toPubkey: PublicKey.unique(), lamports: 1_000 })
+  );
+  tx.feePayer = from;
+  tx.recentBlockhash = Keypair.generate().publicKey.toBase58();
+  return tx;
+}
+
+describe('KeypairSigner', () => {
+  it('signs messages and transactions with its keypair', async () => {
+    const keypair = Keypair.generate();
+    const signer = new KeypairSigner(keypair);
+
+    expect(signer.publicKey.equals(keypair.publicKey)).toBe(true);
+    expect(verifyEd25519(keypair.publicKey, message, await signer.signMessage(message))).toBe(true);
+
+    const tx = await signTransaction(signer, transfer(keypair.publicKey));
+    expect(tx.verifySignatures()).toBe(true);
+  });
+});
+
+describe('RemoteSigner', () => {
+  let server: LocalSigningServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  async function remote(options: LocalSigningServerOptions = {}, apiKey?: string) {
+    server = new LocalSigningServer(options);
+    const url = await server.listen();
+    return new RemoteSigner({ url, publicKey: server.keypair.publicKey, apiKey });
+  }
+
+  it('signs through the signing service', async () => {
+    const signer = await remote({ apiKey: 'service-key' }, 'service-key');
+
+    const signature = await signer.signMessage(message);
+    expect(verifyEd25519(server!.keypair.publicKey, message, signature)).toBe(true);
+
+    const tx = await signTransaction(signer, transfer(signer.publicKey));
+    expect(tx.verifySignatures()).toBe(true);
+  });
+
+  it('passes the message to the service for approval', async () => {
+    const seen: Buffer[] = [];
+    const signer = await remote({
+      approve: (signing) => {
+        seen.push(signing);
+        return !signing.equals(Buffer.from('refused'));
+      },
+    });
+
+    await signer.signMessage(message);
+    expect(seen[0].equals(message)).toBe(true);
+
+    await expect(signer.signMessage(Buffer.from('refused'))).rejects.toMatchObject({
+      code: 'SignerError',
+      message: expect.stringContaining('403'),
+    });
+  });
+
+  it('fails without the service API key', async () => {
+    const signer = await remote({ apiKey: 'service-key' }, 'wrong-key');
+
+    await expect(signer.signMessage(message)).rejects.toMatchObject({
+      code: 'SignerError',
+      message: expect.stringContaining('401'),
+    });
+  });
+
+  it("rejects signatures that don't verify against the configured key", async () => {
+    // A service that answers for any key, signing with its own
+    const other = Keypair.generate();
+    const rogue = http.createServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ signature: signEd25519(other, message).toString('base64') }));
+    });
+    await new Promise<void>((resolve) => rogue.listen(0, '127.0.0.1', () => resolve()));
+
+    try {
+      const url = `http://127.0.0.1:${(rogue.address() as AddressInfo).port}`;
+      const signer = new RemoteSigner({ url, publicKey: Keypair.generate().publicKey });
+
+      await expect(signer.signMessage(message)).rejects.toMatchObject({
+        code: 'SignerError',
+        message: expect.stringContaining("doesn't verify"),
+      });
+    } finally {
+      await new Promise((resolve) => rogue.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { X402Error } from '../errors.js';
+import { ED25519_SIGNATURE_LENGTH, verifyEd25519 } from '../solana/ed25519.js';
+import { Signer } from './signer.js';
+
+export interface RemoteSignerOptions {
+  url: string; // Signing service base URL
+  publicKey: PublicKey; // Key the service signs with
+  path?: string; // Signing endpoint (default: /sign)
+  apiKey?: string; // Sent as a bearer token if set
+  timeoutMs?: number; // Request timeout (default: 30000)
+}
+
+/**
+ * Signer backed by a remote signing service
+ *
+ * Posts the public key and the serialized transaction message (base64)
+ * as JSON, and expects the Ed25519 signature (base58, base64 or hex) in
+ * the response:
+ *
+ *   POST /sign  { "public_key": "<base58>", "message": "<base64>" }
+ *            -> { "signature": "<base58>" }
+ *
+ * The service can decode the message to apply its own policy before
+ * signing. Signatures are verified against the public key before use.
+ */
+export class RemoteSigner implements Signer {
+  public readonly name = 'remote';
+  public readonly publicKey: PublicKey;
+  private endpoint: string;
+
+  constructor(private options: RemoteSignerOptions) {
+    this.publicKey = options.publicKey;
+    this.endpoint = new URL(options.path || '/sign', options.url).toString();
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.apiKey) {
+      headers['Authorization'] = `Bearer ${this.options.apiKey}`;
+    }
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        public_key: this.publicKey.toBase58(),
+        message: Buffer.from(message).toString('base64'),
+      }),
+      signal: AbortSignal.timeout(this.options.timeoutMs || 30_000),
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new X402Error('SignerError', `Signing service returned HTTP ${response.status}${text ? `: ${text}` : ''}`);
+    }
+
+    const body: any = await response.json();
+    if (typeof body.signature !== 'string') {
+      throw new X402Error('SignerError', 'Signing service response is missing signature');
+    }
+
+    const signature = decodeSignature(body.signature);
+    if (!signature || !verifyEd25519(this.publicKey, message, signature)) {
+      throw new X402Error(
+        'SignerError',
+        `Signing service returned a signature that doesn't verify against ${this.publicKey.toBase58()}`
+      );
+    }
+    return signature;
+  }
+}
+
+function decodeSignature(value: string): Buffer | undefined {
+  if (/^[0-9a-fA-F]{128}$/.test(value)) {
+    return Buffer.from(value, 'hex');
+  }
+  try {
+    const decoded = Buffer.from(bs58.decode(value));
+    if (decoded.length === ED25519_SIGNATURE_LENGTH) {
+      return decoded;
+    }
+  } catch {
+    // Not base58
+  }
+  const decoded = Buffer.from(value, 'base64');
+  return decoded.length === ED25519_SIGNATURE_LENGTH ? decoded : undefined;
+}
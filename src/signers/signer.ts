@@ -0,0 +1,43 @@
+import { PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+
+/**
+ * Signer for the agent wallet
+ *
+ * The server never needs the secret key itself, only Ed25519 signatures
+ * over transaction messages, so a key can live in memory, in an
+ * encrypted keystore or behind a remote signing service.
+ */
+export interface Signer {
+  readonly name: string;
+  readonly publicKey: PublicKey;
+  signMessage(message: Uint8Array): Promise<Uint8Array>; // Ed25519 signature (64 bytes)
+}
+
+/**
+ * Add a signer's signature to a transaction
+ *
+ * Legacy transactions need their fee payer and blockhash set first.
+ */
+export async function signTransaction<T extends Transaction | VersionedTransaction>(signer: Signer, tx: T): Promise<T> {
+  const message = tx instanceof VersionedTransaction ? tx.message.serialize() : tx.serializeMessage();
+  const signature = await signer.signMessage(message);
+  tx.addSignature(signer.publicKey, Buffer.from(signature));
+  return tx;
+}
+
+/**
+ * Anchor wallet that signs through a signer
+ */
+export function anchorWallet(signer: Signer) {
+  return {
+    publicKey: signer.publicKey,
+    signTransaction: <T extends Transaction | VersionedTransaction>(tx: T) => signTransaction(signer, tx),
+    signAllTransactions: async <T extends Transaction | VersionedTransaction>(txs: T[]) => {
+      // One at a time; remote signers may rate-limit or ask for approval
+      for (const tx of txs) {
+        await signTransaction(signer, tx);
+      }
+      return txs;
+    },
+  };
+}
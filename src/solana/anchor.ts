@@ -1,18 +1,21 @@
 import { AnchorProvider, BN, Program, Wallet, Idl, utils } from '@coral-xyz/anchor';
-import {  Connection, Keypair, PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransaction,
+} from '@solana/web3.js';
 import { PDADeriver } from './pdas.js';
-import * as fs from 'fs';
-import * as path from 'path';
-import { fileURLToPath } from 'url';
+import { buildVerifierMessage, createEd25519Instruction } from './ed25519.js';
+import { X402Event, X402EventDecoder } from './events.js';
+import { describeTransactionError, SenderOptions, TransactionSender } from './sender.js';
+import { X402_IDL } from '../idl/index.js';
+import { anchorWallet, signTransaction, Signer } from '../signers/index.js';
+import { classifyError, X402Error } from '../errors.js';
 import * as borsh from 'borsh';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-// Load IDL dynamically
-const idlPath = path.join(__dirname, '../idl/x402_escrow.json');
-const idlContent = fs.readFileSync(idlPath, 'utf-8');
-const idl = JSON.parse(idlContent);
+import bs58 from 'bs58';
 
 // Instruction discriminators (sha256 hash of "global:instruction_name")
 const INSTRUCTION_DISCRIMINATORS = {
@@ -25,6 +28,24 @@ const INSTRUCTION_DISCRIMINATORS = {
 // Solana system program IDs
 const INSTRUCTIONS_SYSVAR = new PublicKey('Sysvar1nstructions1111111111111111111111111');
 
+// Byte offsets of Escrow fields (after the 8-byte account discriminator)
+export const ESCROW_LAYOUT = {
+  agent: 8,
+  api: 40,
+  amount: 72,
+  status: 80,
+  createdAt: 81,
+  expiresAt: 89,
+};
+
+// EscrowStatus enum variant indexes
+const ESCROW_STATUS_INDEX = {
+  Active: 0,
+  Released: 1,
+  Disputed: 2,
+  Resolved: 3,
+};
+
 /**
  * X402Escrow program types (auto-generated from IDL)
  */
@@ -58,6 +79,87 @@ export interface EntityReputationAccount {
   bump: number;
 }
 
+export interface RateLimiterAccount {
+  entity: PublicKey;
+  verificationLevel: { basic: {} } | { staked: {} } | { social: {} } | { kyc: {} };
+  transactionsLastHour: number;
+  transactionsLastDay: number;
+  disputesLastDay: number;
+  lastHourCheck: bigint;
+  lastDayCheck: bigint;
+  bump: number;
+}
+
+export interface WorkAgreementAccount {
+  escrow: PublicKey;
+  query: string;
+  requiredFields: number;
+  minRecords: number;
+  maxAgeDays: number;
+  minQualityScore: number;
+  createdAt: bigint;
+  bump: number;
+}
+
+export interface ProviderPenaltiesAccount {
+  provider: PublicKey;
+  strikeCount: number;
+  suspended: boolean;
+  suspensionEnd: bigint | null;
+  totalRefundsIssued: bigint;
+  poorQualityCount: number;
+  createdAt: bigint;
+  lastUpdated: bigint;
+  bump: number;
+}
+
+/**
+ * Options for methods that send a transaction
+ */
+export interface TransactionOptions {
+  dryRun?: boolean; // Simulate instead of sending
+  preInstructions?: TransactionInstruction[]; // Run first in the same transaction (e.g. account setup)
+}
+
+type DryRun = TransactionOptions & { dryRun: true };
+
+type MethodsBuilder = ReturnType<Program['methods'][string]>;
+
+export interface InitializeEscrowArgs {
+  api: PublicKey;
+  amount: number | bigint; // Amount in lamports
+  timeLock: number; // Time lock in seconds
+  transactionId: string;
+}
+
+export interface ResolveDisputeArgs {
+  transactionId: string;
+  qualityScore: number;
+  refundPercentage: number;
+  signature: Buffer; // Ed25519 signature (64 bytes)
+  verifier: PublicKey;
+}
+
+export interface ResolveDisputeSwitchboardArgs {
+  transactionId: string;
+  qualityScore: number;
+  refundPercentage: number;
+  switchboardFunction: PublicKey;
+}
+
+/**
+ * Outcome of simulating a transaction
+ */
+export interface SimulationResult {
+  success: boolean; // Whether the transaction would succeed
+  unitsConsumed?: number; // Compute units
+  fee?: number; // Base fee in lamports (unset if the RPC couldn't price the message)
+  priorityFee?: number; // Priority fee in lamports the sender would add for the consumed units
+  logs: string[];
+  events: X402Event[]; // Decoded program events (none if it would fail)
+  error?: X402Error; // Decoded failure, program errors by IDL name
+}
+
 /**
  * Wrapper for x402Resolve Anchor program
  * Provides type-safe methods for all program instructions
@@ -65,63 +167,63 @@ export interface EntityReputationAccount {
 export class X402Program {
   public program: X402EscrowProgram;
   public pda: PDADeriver;
-  private wallet: Keypair;
-
-  constructor(connection: Connection, wallet: Keypair, programId: PublicKey) {
-    this.wallet = wallet;
-
-    // Create Anchor provider
-    const anchorWallet = {
-      publicKey: wallet.publicKey,
-      signTransaction: async (tx: any) => {
-        tx.sign([wallet]);
-        return tx;
-      },
-      signAllTransactions: async (txs: any[]) => {
-        txs.forEach((tx) => tx.sign([wallet]));
-        return txs;
-      },
-      payer: wallet,
-    } as any;
-
-    const provider = new AnchorProvider(connection, anchorWallet, {
+  public events: X402EventDecoder;
+  public sender: TransactionSender;
+  private signer: Signer;
+
+  /**
+   * @param signer - Signs every transaction for the agent wallet
+   * @param sender - Compute budget, priority fee and rebroadcast settings (optional)
+   */
+  constructor(connection: Connection, signer: Signer, programId: PublicKey, sender?: SenderOptions) {
+    this.signer = signer;
+
+    const provider = new AnchorProvider(connection, anchorWallet(signer) as Wallet, {
       commitment: 'confirmed',
     });
 
     // Initialize program with programId
-    this.program = new Program(idl as Idl, provider);
+    this.program = new Program(X402_IDL as Idl, provider);
     // Set the program ID manually since we're loading IDL from JSON
     (this.program as any).programId = programId;
 
     this.pda = new PDADeriver(programId);
+    this.events = new X402EventDecoder(connection, this.program);
+    this.sender = new TransactionSender(connection, signer.publicKey, (tx) => signTransaction(signer, tx), sender);
   }
 
   /**
    * Initialize a new escrow
    *
    * @param params - Escrow parameters
-   * @returns Transaction signature and escrow PDA
+   * @returns Transaction signature (or simulation with dryRun) and escrow PDA
    */
-  async initializeEscrow(params: {
-    api: PublicKey;
-    amount: number; // Amount in lamports
-    timeLock: number; // Time lock in seconds
-    transactionId: string;
-  }): Promise<{ signature: string; escrowPDA: PublicKey }> {
+  initializeEscrow(params: InitializeEscrowArgs, options: DryRun): Promise<SimulationResult & { escrowPDA: PublicKey }>;
+  initializeEscrow(
+    params: InitializeEscrowArgs,
+    options?: TransactionOptions
+  ): Promise<{ signature: string; escrowPDA: PublicKey }>;
+  async initializeEscrow(
+    params: InitializeEscrowArgs,
+    options: TransactionOptions = {}
+  ): Promise<{ signature: string; escrowPDA: PublicKey } | (SimulationResult & { escrowPDA: PublicKey })> {
     const [escrowPDA] = this.pda.deriveEscrowPDA(params.transactionId);
 
-    const tx = await this.program.methods
+    const builder = this.program.methods
       .initializeEscrow(BigInt(params.amount), BigInt(params.timeLock), params.transactionId)
       .accounts({
         escrow: escrowPDA,
-        agent: this.wallet.publicKey,
+        agent: this.signer.publicKey,
         api: params.api,
         systemProgram: SystemProgram.programId,
-      })
-      .rpc();
+      });
+
+    if (options.dryRun) {
+      return { ...(await this.simulate(builder, options)), escrowPDA };
+    }
 
     return {
-      signature: tx,
+      signature: await this.send(builder, options),
       escrowPDA,
     };
   }
@@ -130,60 +232,59 @@ export class X402Program {
    * Release funds to API (happy path - no dispute)
    *
    * @param transactionId - Transaction ID of the escrow
-   * @returns Transaction signature
+   * @returns Transaction signature (or simulation with dryRun)
    */
-  async releaseFunds(transactionId: string): Promise<string> {
+  releaseFunds(transactionId: string, options: DryRun): Promise<SimulationResult>;
+  releaseFunds(transactionId: string, options?: TransactionOptions): Promise<string>;
+  async releaseFunds(transactionId: string, options: TransactionOptions = {}): Promise<string | SimulationResult> {
     const [escrowPDA] = this.pda.deriveEscrowPDA(transactionId);
     const escrow = await this.getEscrowAccount(escrowPDA);
 
-    const tx = await this.program.methods
+    const builder = this.program.methods
       .releaseFunds()
       .accounts({
         escrow: escrowPDA,
-        agent: this.wallet.publicKey,
+        agent: this.signer.publicKey,
         api: escrow.api,
         systemProgram: SystemProgram.programId,
-      })
-      .rpc();
+      });
 
-    return tx;
+    return this.execute(builder, options);
   }
 
   /**
    * Mark escrow as disputed
    *
    * @param transactionId - Transaction ID of the escrow
-   * @returns Transaction signature
+   * @returns Transaction signature (or simulation with dryRun)
    */
-  async markDisputed(transactionId: string): Promise<string> {
+  markDisputed(transactionId: string, options: DryRun): Promise<SimulationResult>;
+  markDisputed(transactionId: string, options?: TransactionOptions): Promise<string>;
+  async markDisputed(transactionId: string, options: TransactionOptions = {}): Promise<string | SimulationResult> {
     const [escrowPDA] = this.pda.deriveEscrowPDA(transactionId);
-    const [reputationPDA] = this.pda.deriveReputationPDA(this.wallet.publicKey);
+    const [reputationPDA] = this.pda.deriveReputationPDA(this.signer.publicKey);
 
-    const tx = await this.program.methods
-      .markDisputed()
-      .accounts({
-        escrow: escrowPDA,
-        reputation: reputationPDA,
-        agent: this.wallet.publicKey,
-      })
-      .rpc();
+    const builder = this.program.methods.markDisputed().accounts({
+      escrow: escrowPDA,
+      reputation: reputationPDA,
+      agent: this.signer.publicKey,
+    });
 
-    return tx;
+    return this.execute(builder, options);
   }
 
   /**
    * Resolve dispute with verifier oracle signature
    *
+   * Prepends the Ed25519 precompile instruction the program reads
+   * through the instructions sysvar.
+   *
    * @param params - Dispute resolution parameters
-   * @returns Transaction signature
+   * @returns Transaction signature (or simulation with dryRun)
    */
-  async resolveDispute(params: {
-    transactionId: string;
-    qualityScore: number;
-    refundPercentage: number;
-    signature: Buffer; // Ed25519 signature (64 bytes)
-    verifier: PublicKey;
-  }): Promise<string> {
+  resolveDispute(params: ResolveDisputeArgs, options: DryRun): Promise<SimulationResult>;
+  resolveDispute(params: ResolveDisputeArgs, options?: TransactionOptions): Promise<string>;
+  async resolveDispute(params: ResolveDisputeArgs, options: TransactionOptions = {}): Promise<string | SimulationResult> {
     const [escrowPDA] = this.pda.deriveEscrowPDA(params.transactionId);
     const escrow = await this.getEscrowAccount(escrowPDA);
 
@@ -193,7 +294,10 @@ export class X402Program {
     // Convert Buffer to array for Anchor
     const signatureArray = Array.from(params.signature);
 
-    const tx = await this.program.methods
+    const message = buildVerifierMessage(params.transactionId, params.qualityScore);
+    const ed25519Ix = createEd25519Instruction(params.verifier, message, params.signature);
+
+    const builder = this.program.methods
       .resolveDispute(params.qualityScore, params.refundPercentage, signatureArray as any)
       .accounts({
         escrow: escrowPDA,
@@ -205,37 +309,98 @@ export class X402Program {
         apiReputation: apiReputationPDA,
         systemProgram: SystemProgram.programId,
       })
-      .rpc();
+      .preInstructions([ed25519Ix]);
 
-    return tx;
+    return this.execute(builder, options);
   }
 
   /**
-   * Initialize reputation account for an entity
+   * Resolve dispute with a Switchboard function attestation
    *
-   * @param entity - Entity public key (defaults to wallet)
-   * @returns Transaction signature and reputation PDA
+   * The program reads the quality score from the Switchboard function
+   * account and rejects the call if it is stale or differs from the
+   * submitted values.
+   *
+   * @param params - Dispute resolution parameters
+   * @returns Transaction signature (or simulation with dryRun)
    */
-  async initReputation(entity?: PublicKey): Promise<{ signature: string; reputationPDA: PublicKey }> {
-    const entityPubkey = entity || this.wallet.publicKey;
-    const [reputationPDA] = this.pda.deriveReputationPDA(entityPubkey);
+  resolveDisputeSwitchboard(params: ResolveDisputeSwitchboardArgs, options: DryRun): Promise<SimulationResult>;
+  resolveDisputeSwitchboard(params: ResolveDisputeSwitchboardArgs, options?: TransactionOptions): Promise<string>;
+  async resolveDisputeSwitchboard(
+    params: ResolveDisputeSwitchboardArgs,
+    options: TransactionOptions = {}
+  ): Promise<string | SimulationResult> {
+    const [escrowPDA] = this.pda.deriveEscrowPDA(params.transactionId);
+    const escrow = await this.getEscrowAccount(escrowPDA);
 
-    const tx = await this.program.methods
-      .initReputation()
+    const [agentReputationPDA] = this.pda.deriveReputationPDA(escrow.agent);
+    const [apiReputationPDA] = this.pda.deriveReputationPDA(escrow.api);
+
+    const builder = this.program.methods
+      .resolveDisputeSwitchboard(params.qualityScore, params.refundPercentage)
       .accounts({
-        reputation: reputationPDA,
-        entity: entityPubkey,
-        payer: this.wallet.publicKey,
+        escrow: escrowPDA,
+        agent: escrow.agent,
+        api: escrow.api,
+        switchboardFunction: params.switchboardFunction,
+        agentReputation: agentReputationPDA,
+        apiReputation: apiReputationPDA,
         systemProgram: SystemProgram.programId,
-      })
-      .rpc();
+      });
+
+    return this.execute(builder, options);
+  }
+
+  /**
+   * Initialize reputation account for an entity
+   *
+   * @param entity - Entity public key (defaults to wallet)
+   * @returns Transaction signature (or simulation with dryRun) and reputation PDA
+   */
+  initReputation(entity: PublicKey | undefined, options: DryRun): Promise<SimulationResult & { reputationPDA: PublicKey }>;
+  initReputation(
+    entity?: PublicKey,
+    options?: TransactionOptions
+  ): Promise<{ signature: string; reputationPDA: PublicKey }>;
+  async initReputation(
+    entity?: PublicKey,
+    options: TransactionOptions = {}
+  ): Promise<{ signature: string; reputationPDA: PublicKey } | (SimulationResult & { reputationPDA: PublicKey })> {
+    const [reputationPDA] = this.pda.deriveReputationPDA(entity || this.signer.publicKey);
+    const builder = this.initReputationBuilder(entity);
+
+    if (options.dryRun) {
+      return { ...(await this.simulate(builder, options)), reputationPDA };
+    }
 
     return {
-      signature: tx,
+      signature: await this.send(builder, options),
       reputationPDA,
     };
   }
 
+  /**
+   * initReputation as an instruction, to run ahead of another
+   * instruction that needs the account (see TransactionOptions.preInstructions)
+   *
+   * @param entity - Entity public key (defaults to wallet)
+   */
+  async initReputationInstruction(entity?: PublicKey): Promise<TransactionInstruction> {
+    return this.initReputationBuilder(entity).instruction();
+  }
+
+  private initReputationBuilder(entity?: PublicKey) {
+    const entityPubkey = entity || this.signer.publicKey;
+    const [reputationPDA] = this.pda.deriveReputationPDA(entityPubkey);
+
+    return this.program.methods.initReputation().accounts({
+      reputation: reputationPDA,
+      entity: entityPubkey,
+      payer: this.signer.publicKey,
+      systemProgram: SystemProgram.programId,
+    });
+  }
+
   /**
    * Fetch escrow account data
    *
@@ -247,6 +412,40 @@ export class X402Program {
     return accountData as any;
   }
 
+  /**
+   * List escrow accounts using getProgramAccounts memcmp filters
+   *
+   * @param filters - agent, api and status filters (all optional)
+   * @returns Matching escrow PDAs with account data
+   */
+  async listEscrows(
+    filters: {
+      agent?: PublicKey;
+      api?: PublicKey;
+      status?: keyof typeof ESCROW_STATUS_INDEX;
+    } = {}
+  ): Promise<Array<{ publicKey: PublicKey; account: EscrowAccount }>> {
+    const memcmp: Array<{ memcmp: { offset: number; bytes: string } }> = [];
+
+    if (filters.agent) {
+      memcmp.push({ memcmp: { offset: ESCROW_LAYOUT.agent, bytes: filters.agent.toBase58() } });
+    }
+    if (filters.api) {
+      memcmp.push({ memcmp: { offset: ESCROW_LAYOUT.api, bytes: filters.api.toBase58() } });
+    }
+    if (filters.status) {
+      memcmp.push({
+        memcmp: {
+          offset: ESCROW_LAYOUT.status,
+          bytes: bs58.encode(Buffer.from([ESCROW_STATUS_INDEX[filters.status]])),
+        },
+      });
+    }
+
+    const accounts = await this.program.account['escrow'].all(memcmp);
+    return accounts as any;
+  }
+
   /**
    * Fetch reputation account data
    *
@@ -258,6 +457,98 @@ export class X402Program {
     return accountData as any;
   }
 
+  /**
+   * Fetch rate limiter account data
+   *
+   * @param rateLimiterPDA - Rate limiter PDA address
+   * @returns Rate limiter account data, or null if not initialized
+   */
+  async getRateLimiterAccount(rateLimiterPDA: PublicKey): Promise<RateLimiterAccount | null> {
+    const accountData = await this.program.account['rateLimiter'].fetchNullable(rateLimiterPDA);
+    return accountData as any;
+  }
+
+  /**
+   * Fetch work agreement account data
+   *
+   * @param workAgreementPDA - Work agreement PDA address
+   * @returns Work agreement account data, or null if not initialized
+   */
+  async getWorkAgreementAccount(workAgreementPDA: PublicKey): Promise<WorkAgreementAccount | null> {
+    const accountData = await this.program.account['workAgreement'].fetchNullable(workAgreementPDA);
+    return accountData as any;
+  }
+
+  /**
+   * Fetch provider penalties account data
+   *
+   * @param penaltiesPDA - Provider penalties PDA address
+   * @returns Provider penalties account data, or null if not initialized
+   */
+  async getProviderPenaltiesAccount(penaltiesPDA: PublicKey): Promise<ProviderPenaltiesAccount | null> {
+    const accountData = await this.program.account['providerPenalties'].fetchNullable(penaltiesPDA);
+    return accountData as any;
+  }
+
+  /**
+   * Send a built instruction, or simulate it with dryRun
+   */
+  private async execute(builder: MethodsBuilder, options: TransactionOptions): Promise<string | SimulationResult> {
+    return options.dryRun ? this.simulate(builder, options) : this.send(builder, options);
+  }
+
+  /**
+   * Send a built instruction through the sender, with a compute budget,
+   * priority fee and rebroadcast until confirmed or expired
+   */
+  private async send(builder: MethodsBuilder, options: TransactionOptions): Promise<string> {
+    if (options.preInstructions?.length) {
+      builder = builder.preInstructions(options.preInstructions);
+    }
+    const tx: Transaction = await builder.transaction();
+    return this.sender.send(tx.instructions);
+  }
+
+  /**
+   * Simulate a built instruction without signing or sending it
+   */
+  private async simulate(builder: MethodsBuilder, options: TransactionOptions): Promise<SimulationResult> {
+    if (options.preInstructions?.length) {
+      builder = builder.preInstructions(options.preInstructions);
+    }
+
+    const connection = this.program.provider.connection;
+    const tx: Transaction = await builder.transaction();
+    const { blockhash } = await connection.getLatestBlockhash('confirmed');
+    tx.feePayer = this.signer.publicKey;
+    tx.recentBlockhash = blockhash;
+    const message = tx.compileMessage();
+
+    const [simulation, fee, microLamports] = await Promise.all([
+      connection.simulateTransaction(new VersionedTransaction(message), { sigVerify: false, commitment: 'confirmed' }),
+      connection
+        .getFeeForMessage(message, 'confirmed')
+        .then((response) => response.value ?? undefined)
+        .catch(() => undefined),
+      this.sender.priorityFee(tx.instructions),
+    ]);
+
+    const { err, logs, unitsConsumed } = simulation.value;
+
+    return {
+      success: err == null,
+      unitsConsumed,
+      fee,
+      priorityFee: unitsConsumed !== undefined ? Math.ceil((microLamports * unitsConsumed) / 1_000_000) : undefined,
+      logs: logs || [],
+      events: err == null ? this.events.decodeLogs(logs || []) : [],
+      error:
+        err == null
+          ? undefined
+          : classifyError({ message: `Transaction simulation failed: ${describeTransactionError(err)}`, logs }),
+    };
+  }
+
   /**
    * Check if escrow account exists
    *
@@ -290,3 +581,4 @@ export class X402Program {
     }
   }
 }
+
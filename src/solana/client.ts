@@ -5,10 +5,12 @@ import {
   Transaction,
   TransactionSignature,
   Commitment,
-  ConfirmOptions,
 } from '@solana/web3.js';
 import * as fs from 'fs';
 import bs58 from 'bs58';
+import { Signer, signTransaction } from '../signers/signer.js';
+import { RpcPool, RpcPoolConfig } from './rpc.js';
+import { SenderOptions, TransactionSender } from './sender.js';
 
 /**
  * Load keypair from file path or base58 string
@@ -33,18 +35,31 @@ export function loadKeypair(pathOrBase58: string): Keypair {
  */
 export class SolanaClient {
   public connection: Connection;
-  public wallet: Keypair;
+  public signer: Signer;
+  public rpc: RpcPool;
+  public sender: TransactionSender;
 
-  constructor(rpcUrl: string, wallet: Keypair, commitment: Commitment = 'confirmed') {
-    this.connection = new Connection(rpcUrl, commitment);
-    this.wallet = wallet;
+  /**
+   * @param rpc - RPC endpoint URL, or weighted read and send endpoint pools
+   * @param signer - Signs every transaction for the agent wallet
+   */
+  constructor(
+    rpc: string | RpcPoolConfig,
+    signer: Signer,
+    commitment: Commitment = 'confirmed',
+    sender?: SenderOptions
+  ) {
+    this.rpc = new RpcPool(typeof rpc === 'string' ? { read: [{ url: rpc }] } : rpc);
+    this.connection = this.rpc.connection(commitment);
+    this.signer = signer;
+    this.sender = new TransactionSender(this.connection, signer.publicKey, (tx) => signTransaction(signer, tx), sender);
   }
 
   /**
    * Get wallet public key
    */
   get publicKey(): PublicKey {
-    return this.wallet.publicKey;
+    return this.signer.publicKey;
   }
 
   /**
@@ -72,38 +87,16 @@ export class SolanaClient {
   /**
    * Send and confirm a transaction
    *
-   * @param transaction - Transaction to send
-   * @param options - Confirmation options
+   * Its instructions are sent with a compute budget and priority fee,
+   * and rebroadcast until confirmed or the blockhash expires. Leading
+   * signature precompile instructions stay first.
+   *
+   * @param transaction - Transaction to send (blockhash, fee payer and signatures are set here)
    * @returns Transaction signature
+   * @throws X402Error - TransactionFailed, TransactionExpired or TransactionUnknown
    */
-  async sendAndConfirmTransaction(
-    transaction: Transaction,
-    options?: ConfirmOptions
-  ): Promise<TransactionSignature> {
-    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
-    transaction.recentBlockhash = blockhash;
-    transaction.feePayer = this.publicKey;
-
-    // Sign transaction
-    transaction.sign(this.wallet);
-
-    // Send transaction
-    const signature = await this.connection.sendRawTransaction(transaction.serialize(), {
-      skipPreflight: false,
-      ...options,
-    });
-
-    // Confirm transaction
-    await this.connection.confirmTransaction(
-      {
-        signature,
-        blockhash,
-        lastValidBlockHeight,
-      },
-      options?.commitment || 'confirmed'
-    );
-
-    return signature;
+  async sendAndConfirmTransaction(transaction: Transaction): Promise<TransactionSignature> {
+    return this.sender.send(transaction.instructions);
   }
 
   /**
@@ -0,0 +1,34 @@
+import { describe, expect, it } from '@jest/globals';
+import { Ed25519Program, Keypair } from '@solana/web3.js';
+import { buildVerifierMessage, createEd25519Instruction, signEd25519, verifyEd25519 } from './ed25519.js';
+
+describe('Ed25519 verifier signatures', () => {
+  const keypair = Keypair.generate();
+  const message = buildVerifierMessage('tx-1', 42);
+
+  it('signs the "<transaction_id>:<quality_score>" message', () => {
+    expect(message.toString('utf-8')).toBe('tx-1:42');
+
+    const signature = signEd25519(keypair, message);
+    expect(signature).toHaveLength(64);
+    expect(verifyEd25519(keypair.publicKey, message, signature)).toBe(true);
+  });
+
+  it('rejects another message, another key and malformed signatures', () => {
+    const signature = signEd25519(keypair, message);
+
+    expect(verifyEd25519(keypair.publicKey, buildVerifierMessage('tx-1', 43), signature)).toBe(false);
+    expect(verifyEd25519(Keypair.generate().publicKey, message, signature)).toBe(false);
+    expect(verifyEd25519(keypair.publicKey, message, signature.subarray(0, 63))).toBe(false);
+  });
+
+  it('builds the precompile instruction over the verifier key and message', () => {
+    const signature = signEd25519(keypair, message);
+    const instruction = createEd25519Instruction(keypair.publicKey, message, signature);
+
+    expect(instruction.programId.equals(Ed25519Program.programId)).toBe(true);
+    expect(instruction.data.includes(keypair.publicKey.toBuffer())).toBe(true);
+    expect(instruction.data.includes(signature)).toBe(true);
+    expect(instruction.data.includes(message)).toBe(true);
+  });
+});
@@ -0,0 +1,67 @@
+import { Ed25519Program, Keypair, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import * as crypto from 'crypto';
+
+/**
+ * Ed25519 utilities for verifier oracle signatures
+ *
+ * The x402Resolve program checks that the transaction carrying
+ * resolve_dispute also contains an Ed25519 precompile instruction
+ * over the verifier's message.
+ */
+
+// DER prefixes for wrapping raw Ed25519 keys so Node's crypto can use them
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+export const ED25519_SIGNATURE_LENGTH = 64;
+
+/**
+ * Build the message the verifier oracle signs
+ * Format: "<transaction_id>:<quality_score>"
+ */
+export function buildVerifierMessage(transactionId: string, qualityScore: number): Buffer {
+  return Buffer.from(`${transactionId}:${qualityScore}`, 'utf-8');
+}
+
+/**
+ * Sign a message with an Ed25519 keypair
+ */
+export function signEd25519(keypair: Keypair, message: Uint8Array): Buffer {
+  const privateKey = crypto.createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, Buffer.from(keypair.secretKey.slice(0, 32))]),
+    format: 'der',
+    type: 'pkcs8',
+  });
+  return crypto.sign(null, message, privateKey);
+}
+
+/**
+ * Verify an Ed25519 signature locally
+ */
+export function verifyEd25519(publicKey: PublicKey, message: Uint8Array, signature: Uint8Array): boolean {
+  if (signature.length !== ED25519_SIGNATURE_LENGTH) {
+    return false;
+  }
+
+  const key = crypto.createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, publicKey.toBuffer()]),
+    format: 'der',
+    type: 'spki',
+  });
+  return crypto.verify(null, message, key, signature);
+}
+
+/**
+ * Create the Ed25519 precompile instruction read through the instructions sysvar
+ */
+export function createEd25519Instruction(
+  verifier: PublicKey,
+  message: Uint8Array,
+  signature: Uint8Array
+): TransactionInstruction {
+  return Ed25519Program.createInstructionWithPublicKey({
+    publicKey: verifier.toBytes(),
+    message,
+    signature,
+  });
+}
@@ -0,0 +1,215 @@
+import { EventParser, Program } from '@coral-xyz/anchor';
+import { Connection, PublicKey } from '@solana/web3.js';
+
+/**
+ * x402Resolve program events (from IDL)
+ */
+export interface EscrowInitializedEvent {
+  escrow: PublicKey;
+  agent: PublicKey;
+  api: PublicKey;
+  amount: bigint;
+  expiresAt: bigint;
+  transactionId: string;
+}
+
+export interface DisputeMarkedEvent {
+  escrow: PublicKey;
+  agent: PublicKey;
+  transactionId: string;
+  timestamp: bigint;
+}
+
+export interface DisputeResolvedEvent {
+  escrow: PublicKey;
+  transactionId: string;
+  qualityScore: number;
+  refundPercentage: number;
+  refundAmount: bigint;
+  paymentAmount: bigint;
+  verifier: PublicKey;
+}
+
+export interface FundsReleasedEvent {
+  escrow: PublicKey;
+  transactionId: string;
+  amount: bigint;
+  api: PublicKey;
+  timestamp: bigint;
+}
+
+export type X402Event =
+  | { name: 'EscrowInitialized'; data: EscrowInitializedEvent }
+  | { name: 'DisputeMarked'; data: DisputeMarkedEvent }
+  | { name: 'DisputeResolved'; data: DisputeResolvedEvent }
+  | { name: 'FundsReleased'; data: FundsReleasedEvent };
+
+export type X402EventName = X402Event['name'];
+
+/**
+ * Events emitted by one confirmed transaction
+ */
+export interface TransactionEvents {
+  signature: string;
+  slot: number;
+  blockTime: number | null; // Unix timestamp
+  failed: boolean;
+  events: X402Event[];
+}
+
+const EVENT_NAMES: X402EventName[] = ['EscrowInitialized', 'DisputeMarked', 'DisputeResolved', 'FundsReleased'];
+
+// getTransactions batch size (keeps RPC request bodies small)
+const TRANSACTION_BATCH_SIZE = 25;
+
+// Most signatures getSignaturesForAddress returns per call
+const SIGNATURE_PAGE_SIZE = 1000;
+
+/**
+ * Decodes x402Resolve events from transaction logs
+ * using Anchor's event coder
+ */
+export class X402EventDecoder {
+  private parser: EventParser;
+
+  constructor(
+    private connection: Connection,
+    program: Program
+  ) {
+    this.parser = new EventParser(program.programId, program.coder);
+  }
+
+  /**
+   * Decode program events from transaction log messages
+   *
+   * @param logs - Log messages from a transaction
+   * @returns Decoded events in emission order
+   */
+  decodeLogs(logs: string[]): X402Event[] {
+    const events: X402Event[] = [];
+
+    try {
+      for (const event of this.parser.parseLogs(logs)) {
+        const name = normalizeEventName(event.name);
+        if (name) {
+          events.push({ name, data: normalizeEventData(event.data) } as X402Event);
+        }
+      }
+    } catch {
+      // Truncated or foreign logs, keep whatever decoded cleanly
+    }
+
+    return events;
+  }
+
+  /**
+   * Fetch a confirmed transaction and decode its events
+   *
+   * @param signature - Transaction signature
+   * @returns Decoded events, or null if the transaction is not found
+   */
+  async decodeTransaction(signature: string): Promise<TransactionEvents | null> {
+    const tx = await this.connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+
+    if (!tx) {
+      return null;
+    }
+
+    // Logs of failed transactions can contain events that were rolled back
+    const failed = tx.meta?.err != null;
+
+    return {
+      signature,
+      slot: tx.slot,
+      blockTime: tx.blockTime ?? null,
+      failed,
+      events: failed ? [] : this.decodeLogs(tx.meta?.logMessages || []),
+    };
+  }
+
+  /**
+   * Get the ordered event history for an account (usually an escrow PDA)
+   *
+   * @param address - Account whose transactions to scan
+   * @param options - limit: max signatures to scan (newest first; default: all),
+   * until: stop at this signature (exclusive)
+   * @returns Transactions with decoded events, oldest first
+   */
+  async getAccountHistory(
+    address: PublicKey,
+    options: { limit?: number; until?: string } = {}
+  ): Promise<TransactionEvents[]> {
+    // Page back from the newest signature until `until`, the limit or the account's first transaction
+    const signatures: Awaited<ReturnType<Connection['getSignaturesForAddress']>> = [];
+    let before: string | undefined;
+    while (options.limit === undefined || signatures.length < options.limit) {
+      const pageSize = Math.min(SIGNATURE_PAGE_SIZE, (options.limit ?? Infinity) - signatures.length);
+      const page = await this.connection.getSignaturesForAddress(
+        address,
+        { limit: pageSize, before, until: options.until },
+        'confirmed'
+      );
+      signatures.push(...page);
+      if (page.length < pageSize) {
+        break;
+      }
+      before = page[page.length - 1].signature;
+    }
+
+    // RPC returns newest first
+    signatures.reverse();
+
+    const history: TransactionEvents[] = [];
+
+    for (let i = 0; i < signatures.length; i += TRANSACTION_BATCH_SIZE) {
+      const batch = signatures.slice(i, i + TRANSACTION_BATCH_SIZE);
+      const txs = await this.connection.getTransactions(
+        batch.map((s) => s.signature),
+        { commitment: 'confirmed', maxSupportedTransactionVersion: 0 }
+      );
+
+      txs.forEach((tx, j) => {
+        const info = batch[j];
+        const failed = info.err != null;
+        history.push({
+          signature: info.signature,
+          slot: info.slot,
+          blockTime: info.blockTime ?? null,
+          failed,
+          events: tx && !failed ? this.decodeLogs(tx.meta?.logMessages || []) : [],
+        });
+      });
+    }
+
+    return history;
+  }
+}
+
+/**
+ * Anchor may report event names in camelCase depending on IDL format
+ */
+function normalizeEventName(name: string): X402EventName | null {
+  const pascal = name.charAt(0).toUpperCase() + name.slice(1);
+  return EVENT_NAMES.find((n) => n === pascal) || null;
+}
+
+/**
+ * Convert BN fields to bigint so event data matches the account types
+ */
+function normalizeEventData(data: Record<string, any>): Record<string, any> {
+  const normalized: Record<string, any> = {};
+  for (const [key, value] of Object.entries(data)) {
+    normalized[key] = isBN(value) ? BigInt(value.toString()) : value;
+  }
+  return normalized;
+}
+
+/**
+ * bn.js instance check (anchor's ESM build doesn't re-export BN as a value)
+ */
+function isBN(value: any): boolean {
+  return value !== null && typeof value === 'object' && Array.isArray(value.words) && typeof value.negative === 'number';
+}
@@ -48,4 +48,35 @@ export class PDADeriver {
       this.programId
     );
   }
+
+  /**
+   * Derive provider penalties PDA for an API provider
+   * Seeds: ['provider_penalties', provider_pubkey] (unconfirmed: the IDL
+   * declares no seeds for ProviderPenalties and the program source isn't
+   * available, so a missing account may just be a different address)
+   *
+   * @param provider - API provider public key
+   * @returns [PDA PublicKey, bump seed]
+   */
+  deriveProviderPenaltiesPDA(provider: PublicKey): [PublicKey, number] {
+    return PublicKey.findProgramAddressSync(
+      [Buffer.from('provider_penalties'), provider.toBuffer()],
+      this.programId
+    );
+  }
+
+  /**
+   * Derive work agreement PDA for an escrow
+   * Seeds: ['work_agreement', escrow_pubkey] (unconfirmed, as for
+   * deriveProviderPenaltiesPDA)
+   *
+   * @param escrow - Escrow PDA
+   * @returns [PDA PublicKey, bump seed]
+   */
+  deriveWorkAgreementPDA(escrow: PublicKey): [PublicKey, number] {
+    return PublicKey.findProgramAddressSync(
+      [Buffer.from('work_agreement'), escrow.toBuffer()],
+      this.programId
+    );
+  }
 }
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { parseRpcEndpoints, RpcPool } from './rpc.js';
+
+interface FakeEndpoint {
+  url: string;
+  methods: string[]; // Methods of the requests it received
+  status: number;
+  slot: number;
+  server: http.Server;
+}
+
+const servers: http.Server[] = [];
+
+// JSON-RPC endpoint answering getSlot with its slot and anything else with "ok"
+async function endpoint(status = 200, slot = 1_000): Promise<FakeEndpoint> {
+  const fake = { methods: [], status, slot } as unknown as FakeEndpoint;
+
+  fake.server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const request = JSON.parse(body);
+      fake.methods.push(request.method);
+      res.writeHead(fake.status, { 'Content-Type': 'application/json' });
+      const result = request.method === 'getSlot' ? fake.slot : 'ok';
+      res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, result }));
+    });
+  });
+  servers.push(fake.server);
+
+  await new Promise<void>((resolve) => fake.server.listen(0, '127.0.0.1', resolve));
+  fake.url = `http://127.0.0.1:${(fake.server.address() as AddressInfo).port}`;
+  return fake;
+}
+
+function rpc(pool: RpcPool, method: string): Promise<Response> {
+  return pool.fetch('', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params: [] }),
+  });
+}
+
+describe('RpcPool', () => {
+  beforeEach(() => {
+    // Weighted picks take the first healthy endpoint
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await Promise.all(servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve))));
+  });
+
+  it('fails over on server errors and benches the failing endpoint', async () => {
+    const [down, up] = await Promise.all([endpoint(503), endpoint()]);
+    const pool = new RpcPool({ read: [{ url: down.url }, { url: up.url }] });
+
+    const response = await rpc(pool, 'getBalance');
+
+    expect(response.status).toBe(200);
+    expect(up.methods).toEqual(['getBalance']);
+
+    const [unhealthy, healthy] = pool.health().read;
+    expect(unhealthy).toMatchObject({ healthy: false, failures: 1, lastError: expect.stringContaining('503') });
+    expect(healthy).toMatchObject({ healthy: true, requests: 1, failures: 0 });
+
+    // Benched endpoints are only tried after the healthy ones
+    await rpc(pool, 'getBalance');
+    expect(down.methods).toHaveLength(1);
+  });
+
+  it('fails over on network errors', async () => {
+    const up = await endpoint();
+    const pool = new RpcPool({ read: [{ url: 'http://127.0.0.1:1' }, { url: up.url }] });
+
+    expect((await rpc(pool, 'getSlot')).status).toBe(200);
+    expect(pool.health().read[0].healthy).toBe(false);
+  });
+
+  it('returns the last error response when every endpoint fails', async () => {
+    const [first, second] = await Promise.all([endpoint(429), endpoint(500)]);
+    const pool = new RpcPool({ read: [{ url: first.url }, { url: second.url }] });
+
+    const response = await rpc(pool, 'getBalance');
+
+    expect(response.status).toBe(500);
+    expect(pool.health().read.every((health) => !health.healthy)).toBe(true);
+  });
+
+  it('sends transactions through the send pool', async () => {
+    const [read, send] = await Promise.all([endpoint(), endpoint()]);
+    const pool = new RpcPool({ read: [{ url: read.url }], send: [{ url: send.url }] });
+
+    await rpc(pool, 'sendTransaction');
+    await rpc(pool, 'getLatestBlockhash');
+
+    expect(send.methods).toEqual(['sendTransaction']);
+    expect(read.methods).toEqual(['getLatestBlockhash']);
+  });
+
+  it('benches endpoints lagging behind the others on a health check', async () => {
+    const [current, behind] = await Promise.all([endpoint(200, 10_000), endpoint(200, 9_000)]);
+    const pool = new RpcPool({ read: [{ url: current.url }, { url: behind.url }] });
+
+    await pool.check();
+
+    const [ahead, lagging] = pool.health().read;
+    expect(ahead).toMatchObject({ healthy: true, slot: 10_000 });
+    expect(lagging).toMatchObject({ healthy: false, slot: 9_000, lastError: '1000 slots behind' });
+  });
+
+  it('hides endpoint paths in health reports', () => {
+    const pool = new RpcPool({ read: [{ url: 'https://rpc.example.com/secret-key' }] });
+
+    expect(pool.health().read[0].url).toBe('https://rpc.example.com/***');
+  });
+});
+
+describe('parseRpcEndpoints', () => {
+  it('parses URLs with optional weights', () => {
+    expect(parseRpcEndpoints('https://a.example.com|3, https://b.example.com')).toEqual([
+      { url: 'https://a.example.com', weight: 3 },
+      { url: 'https://b.example.com' },
+    ]);
+  });
+
+  it('rejects bad URLs and weights without echoing the path', () => {
+    expect(() => parseRpcEndpoints('not a url')).toThrow('Invalid RPC endpoint URL');
+    expect(() => parseRpcEndpoints('https://a.example.com/key|x')).toThrow(
+      'Invalid RPC endpoint weight "x" for https://a.example.com/***'
+    );
+  });
+});
@@ -0,0 +1,349 @@
+import { Commitment, Connection } from '@solana/web3.js';
+
+/**
+ * Weighted RPC endpoint pools with failover and health tracking
+ *
+ * A Connection built by the pool sends every JSON-RPC request through
+ * the pool's fetch: sendTransaction goes to the send pool, everything
+ * else to the read pool. Each request picks a healthy endpoint at random
+ * by weight and fails over to the next on 429, 5xx, network errors and
+ * timeouts. Failing endpoints sit out a growing cooldown; periodic
+ * health checks bring them back and bench endpoints lagging behind the
+ * others. When no endpoint is healthy, all of them are still tried.
+ *
+ * Websocket subscriptions don't fail over: they always use the first
+ * read endpoint.
+ */
+
+export type RpcPoolName = 'read' | 'send';
+
+export interface RpcEndpointConfig {
+  url: string;
+  weight?: number; // Relative share of requests (default: 1)
+}
+
+export interface RpcPoolConfig {
+  read: RpcEndpointConfig[];
+  send?: RpcEndpointConfig[]; // Endpoints for sendTransaction (default: the read endpoints)
+  timeoutMs?: number; // Per-request timeout before failing over (default: 30000)
+  healthCheckIntervalMs?: number; // How often to check every endpoint (default: 30000)
+}
+
+/**
+ * Health of an endpoint within a pool
+ */
+export interface EndpointHealth {
+  url: string; // Origin only; paths and query strings often carry API keys
+  pool: RpcPoolName;
+  weight: number;
+  healthy: boolean;
+  latencyMs?: number; // Last successful request or health check
+  slot?: number; // From the last health check
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastErrorAt?: number; // Unix timestamp
+  unhealthyUntil?: number; // Unix timestamp
+  lastCheckedAt?: number; // Unix timestamp
+}
+
+interface EndpointState {
+  url: string;
+  latencyMs?: number;
+  slot?: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastErrorAt?: number;
+  unhealthyUntil?: number; // Unix ms
+  lastCheckedAt?: number;
+}
+
+interface PoolMember {
+  state: EndpointState; // Shared when an endpoint is in both pools
+  weight: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_HEALTH_CHECK_MS = 30_000;
+
+// Cooldown after a failure, doubling with each consecutive one
+const BASE_COOLDOWN_MS = 5_000;
+const MAX_COOLDOWN_MS = 120_000;
+
+// Endpoints further behind the most recent slot are benched until the next check
+const MAX_SLOT_LAG = 150;
+
+export class RpcPool {
+  private endpoints = new Map<string, EndpointState>();
+  private pools: Record<RpcPoolName, PoolMember[]>;
+  private timer?: NodeJS.Timeout;
+
+  constructor(private config: RpcPoolConfig) {
+    if (config.read.length === 0) {
+      throw new Error('RPC pool needs at least one read endpoint');
+    }
+
+    this.pools = {
+      read: config.read.map((endpoint) => this.member(endpoint)),
+      send: (config.send?.length ? config.send : config.read).map((endpoint) => this.member(endpoint)),
+    };
+  }
+
+  /**
+   * Connection whose requests go through the pool
+   */
+  connection(commitment: Commitment = 'confirmed'): Connection {
+    return new Connection(this.config.read[0].url, {
+      commitment,
+      fetch: this.fetch,
+      httpAgent: false,
+      // The pool fails over instead of retrying the same endpoint
+      disableRetryOnRateLimit: true,
+    });
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.check().catch((error) => console.error('[RPC] Health check failed:', error.message));
+    this.timer = setInterval(() => {
+      this.check().catch((error) => console.error('[RPC] Health check failed:', error.message));
+    }, this.config.healthCheckIntervalMs || DEFAULT_HEALTH_CHECK_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Health of every endpoint, per pool
+   */
+  health(): Record<RpcPoolName, EndpointHealth[]> {
+    const now = Date.now();
+    const report = (pool: RpcPoolName) =>
+      this.pools[pool].map(({ state, weight }) => ({
+        url: redact(state.url),
+        pool,
+        weight,
+        healthy: isHealthy(state, now),
+        latencyMs: state.latencyMs,
+        slot: state.slot,
+        requests: state.requests,
+        failures: state.failures,
+        consecutiveFailures: state.consecutiveFailures,
+        lastError: state.lastError,
+        lastErrorAt: toUnix(state.lastErrorAt),
+        unhealthyUntil: isHealthy(state, now) ? undefined : toUnix(state.unhealthyUntil),
+        lastCheckedAt: toUnix(state.lastCheckedAt),
+      }));
+
+    return { read: report('read'), send: report('send') };
+  }
+
+  /**
+   * Check every endpoint with getSlot, and bench endpoints lagging behind
+   */
+  async check(): Promise<void> {
+    const states = Array.from(this.endpoints.values());
+
+    const slots = await Promise.all(
+      states.map(async (state) => {
+        const started = Date.now();
+        try {
+          const response = await fetch(state.url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'getSlot', params: [{ commitment: 'confirmed' }] }),
+            signal: AbortSignal.timeout(this.config.timeoutMs || DEFAULT_TIMEOUT_MS),
+          });
+          if (!response.ok) {
+            throw new Error(`${response.status} ${response.statusText}`);
+          }
+          const body: any = await response.json();
+          if (typeof body.result !== 'number') {
+            throw new Error(body.error?.message || 'Invalid getSlot response');
+          }
+
+          state.slot = body.result;
+          this.succeeded(state, Date.now() - started);
+          return body.result as number;
+        } catch (error: any) {
+          this.failed(state, error.message);
+          return undefined;
+        } finally {
+          state.lastCheckedAt = Date.now();
+        }
+      })
+    );
+
+    const latest = Math.max(...slots.filter((slot) => slot !== undefined));
+    states.forEach((state, i) => {
+      if (slots[i] !== undefined && latest - slots[i]! > MAX_SLOT_LAG) {
+        state.lastError = `${latest - slots[i]!} slots behind`;
+        state.lastErrorAt = Date.now();
+        state.unhealthyUntil = Date.now() + (this.config.healthCheckIntervalMs || DEFAULT_HEALTH_CHECK_MS);
+      }
+    });
+  }
+
+  /**
+   * fetch for Connection: routes the JSON-RPC request to a pool and fails over
+   */
+  fetch = async (_input: any, init?: any): Promise<Response> => {
+    const members = this.order(this.pools[poolFor(init?.body)]);
+    const { agent, ...options } = init || {};
+    let lastResponse: Response | undefined;
+    let lastError: any;
+
+    for (const { state } of members) {
+      const started = Date.now();
+      state.requests++;
+
+      try {
+        const response = await fetch(state.url, {
+          ...options,
+          signal: AbortSignal.timeout(this.config.timeoutMs || DEFAULT_TIMEOUT_MS),
+        });
+
+        if (response.status === 429 || response.status >= 500) {
+          this.failed(state, `${response.status} ${response.statusText}`, retryAfter(response));
+          lastResponse?.body?.cancel().catch(() => {});
+          lastResponse = response;
+          continue;
+        }
+
+        this.succeeded(state, Date.now() - started);
+        return response;
+      } catch (error: any) {
+        this.failed(state, error.name === 'TimeoutError' ? 'Request timed out' : error.message);
+        lastError = error;
+      }
+    }
+
+    if (lastResponse) {
+      return lastResponse;
+    }
+    throw lastError;
+  };
+
+  /**
+   * Healthy endpoints in weighted random order, then benched ones
+   * (soonest back first) as a last resort
+   */
+  private order(members: PoolMember[]): PoolMember[] {
+    const now = Date.now();
+    const healthy = members.filter(({ state }) => isHealthy(state, now));
+    const benched = members
+      .filter(({ state }) => !isHealthy(state, now))
+      .sort((a, b) => a.state.unhealthyUntil! - b.state.unhealthyUntil!);
+
+    const ordered: PoolMember[] = [];
+    while (healthy.length > 0) {
+      const total = healthy.reduce((sum, member) => sum + member.weight, 0);
+      let pick = Math.random() * total;
+      const index = Math.max(
+        0,
+        healthy.findIndex((member) => (pick -= member.weight) < 0)
+      );
+      ordered.push(...healthy.splice(index, 1));
+    }
+
+    return [...ordered, ...benched];
+  }
+
+  private member(endpoint: RpcEndpointConfig): PoolMember {
+    if (endpoint.weight !== undefined && !(endpoint.weight > 0)) {
+      throw new Error(`RPC endpoint weight must be positive: ${redact(endpoint.url)}`);
+    }
+
+    let state = this.endpoints.get(endpoint.url);
+    if (!state) {
+      state = { url: endpoint.url, requests: 0, failures: 0, consecutiveFailures: 0 };
+      this.endpoints.set(endpoint.url, state);
+    }
+    return { state, weight: endpoint.weight ?? 1 };
+  }
+
+  private succeeded(state: EndpointState, latencyMs: number): void {
+    state.latencyMs = latencyMs;
+    state.consecutiveFailures = 0;
+    state.unhealthyUntil = undefined;
+  }
+
+  private failed(state: EndpointState, error: string, cooldownMs?: number): void {
+    state.failures++;
+    state.consecutiveFailures++;
+    state.lastError = error;
+    state.lastErrorAt = Date.now();
+    state.unhealthyUntil =
+      Date.now() +
+      (cooldownMs ?? Math.min(BASE_COOLDOWN_MS * 2 ** (state.consecutiveFailures - 1), MAX_COOLDOWN_MS));
+  }
+}
+
+/**
+ * Parse a comma-separated endpoint list, with optional weights after '|'
+ * (e.g. "https://a.example.com|3,https://b.example.com")
+ */
+export function parseRpcEndpoints(value: string): RpcEndpointConfig[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => {
+      const [url, weight] = item.split('|').map((part) => part.trim());
+      try {
+        new URL(url);
+      } catch {
+        throw new Error(`Invalid RPC endpoint URL: ${redact(url)}`);
+      }
+      if (weight === undefined) {
+        return { url };
+      }
+      if (!/^\d+(\.\d+)?$/.test(weight)) {
+        throw new Error(`Invalid RPC endpoint weight "${weight}" for ${redact(url)}`);
+      }
+      return { url, weight: Number(weight) };
+    });
+}
+
+// sendTransaction goes to the send pool, including inside a batch
+function poolFor(body: unknown): RpcPoolName {
+  try {
+    const parsed = JSON.parse(String(body));
+    const requests = Array.isArray(parsed) ? parsed : [parsed];
+    return requests.some((request) => request?.method === 'sendTransaction') ? 'send' : 'read';
+  } catch {
+    return 'read';
+  }
+}
+
+function isHealthy(state: EndpointState, now: number): boolean {
+  return state.unhealthyUntil === undefined || state.unhealthyUntil <= now;
+}
+
+// Retry-After in seconds, as rate-limited RPC providers send it
+function retryAfter(response: Response): number | undefined {
+  const seconds = Number(response.headers.get('retry-after'));
+  return seconds > 0 ? Math.min(seconds * 1000, MAX_COOLDOWN_MS) : undefined;
+}
+
+function redact(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.pathname !== '/' || parsed.search ? `${parsed.origin}/***` : parsed.origin;
+  } catch {
+    return '***';
+  }
+}
+
+function toUnix(ms?: number): number | undefined {
+  return ms === undefined ? undefined : Math.floor(ms / 1000);
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  ComputeBudgetProgram,
+  Ed25519Program,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { computeBudgetInstructions, describeTransactionError, insertComputeBudget } from './sender.js';
+
+function precompile(): TransactionInstruction {
+  const signer = Keypair.generate();
+  return Ed25519Program.createInstructionWithPrivateKey({
+    privateKey: signer.secretKey,
+    message: Buffer.from('message'),
+  });
+}
+
+function transfer(): TransactionInstruction {
+  return SystemProgram.transfer({ fromPubkey: PublicKey.unique(), toPubkey: PublicKey.unique(), lamports: 1 });
+}
+
+describe('computeBudgetInstructions', () => {
+  it('skips the price instruction without a priority fee', () => {
+    expect(computeBudgetInstructions({ units: 200_000, microLamports: 0 })).toHaveLength(1);
+    expect(computeBudgetInstructions({ units: 200_000, microLamports: 5 })).toHaveLength(2);
+  });
+});
+
+describe('insertComputeBudget', () => {
+  it('puts the budget first when there are no precompiles', () => {
+    const caller = [transfer()];
+    const budget = computeBudgetInstructions({ units: 200_000, microLamports: 5 });
+
+    const { instructions, inserted } = insertComputeBudget(caller, budget);
+
+    expect(instructions).toEqual([...budget, ...caller]);
+    expect(inserted).toEqual({ at: 0, count: 2 });
+  });
+
+  it('keeps leading precompiles at their indexes', () => {
+    const caller = [precompile(), transfer(), precompile()];
+    const budget = computeBudgetInstructions({ units: 200_000, microLamports: 5 });
+
+    const { instructions, inserted } = insertComputeBudget(caller, budget);
+
+    expect(instructions[0]).toBe(caller[0]);
+    expect(instructions.slice(1, 3).every((ix) => ix.programId.equals(ComputeBudgetProgram.programId))).toBe(true);
+    expect(instructions.slice(3)).toEqual(caller.slice(1));
+    expect(inserted).toEqual({ at: 1, count: 2 });
+  });
+});
+
+describe('describeTransactionError', () => {
+  const inserted = { at: 1, count: 2 };
+
+  it("reports errors by the caller's instruction index", () => {
+    expect(describeTransactionError({ InstructionError: [0, 'InvalidAccountData'] } as any, inserted)).toBe(
+      'instruction 0: InvalidAccountData'
+    );
+    expect(describeTransactionError({ InstructionError: [3, { Custom: 6012 }] } as any, inserted)).toBe(
+      'instruction 1: custom program error: 0x177c'
+    );
+  });
+
+  it('names failures of the inserted compute budget instructions', () => {
+    expect(describeTransactionError({ InstructionError: [2, 'InvalidInstructionData'] } as any, inserted)).toBe(
+      'compute budget instruction: InvalidInstructionData'
+    );
+  });
+
+  it('passes other errors through', () => {
+    expect(describeTransactionError('BlockhashNotFound' as any)).toBe('BlockhashNotFound');
+    expect(describeTransactionError({ InsufficientFundsForRent: { account_index: 0 } } as any)).toBe(
+      '{"InsufficientFundsForRent":{"account_index":0}}'
+    );
+  });
+});
@@ -0,0 +1,351 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  Ed25519Program,
+  PublicKey,
+  Secp256k1Program,
+  TransactionError,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { classifyError, X402Error } from '../errors.js';
+
+/**
+ * Transaction sending with compute budget, priority fees and rebroadcast
+ *
+ * Each transaction is simulated first to size its compute-unit limit,
+ * priced with a fixed or dynamic (recent prioritization fees) priority
+ * fee, then rebroadcast until it confirms or its blockhash expires.
+ * Compute budget instructions go after any leading signature precompile
+ * instructions, which programs find by index, and error messages name
+ * instructions by their index in the caller's list.
+ * Outcomes other than confirmation raise distinct errors:
+ *
+ *   TransactionFailed   landed and failed (program errors keep their own code)
+ *   TransactionExpired  never landed before lastValidBlockHeight; safe to retry
+ *   TransactionUnknown  couldn't tell; check on-chain state before retrying
+ */
+
+export interface SenderOptions {
+  priorityFee?: number | 'dynamic'; // Micro-lamports per compute unit, or 'dynamic' (default: dynamic)
+  priorityFeePercentile?: number; // Percentile of recent fees for dynamic pricing (default: 75)
+  maxPriorityFee?: number; // Cap in micro-lamports per compute unit (default: 1000000)
+  computeUnitMargin?: number; // Multiplier on simulated compute units (default: 1.2)
+  rebroadcastIntervalMs?: number; // How often to resend and poll (default: 2000)
+}
+
+/**
+ * Compute budget a transaction would be sent with
+ */
+export interface ComputeBudget {
+  units: number; // Compute-unit limit
+  microLamports: number; // Priority fee per compute unit
+}
+
+export type SignTransaction = (tx: VersionedTransaction) => Promise<VersionedTransaction>;
+
+/**
+ * Instructions the sender inserted into the caller's list
+ */
+export interface InsertedInstructions {
+  at: number; // Index of the first inserted instruction
+  count: number;
+}
+
+const MAX_COMPUTE_UNITS = 1_400_000;
+
+// Instructions the compute budget adds on top of the simulated ones
+const COMPUTE_BUDGET_UNITS = 300;
+
+// Signature verification precompiles, read by programs through the instructions sysvar
+const PRECOMPILE_PROGRAMS = [
+  Ed25519Program.programId,
+  Secp256k1Program.programId,
+  new PublicKey('Secp256r1SigVerify1111111111111111111111111'),
+];
+
+const DEFAULT_PERCENTILE = 75;
+const DEFAULT_MAX_PRIORITY_FEE = 1_000_000;
+const DEFAULT_UNIT_MARGIN = 1.2;
+const DEFAULT_REBROADCAST_MS = 2_000;
+
+// Give up on an unresponsive RPC node even if the blockhash hasn't expired
+const MAX_CONFIRMATION_MS = 180_000;
+
+export class TransactionSender {
+  constructor(
+    private connection: Connection,
+    private payer: PublicKey,
+    private sign: SignTransaction,
+    private options: SenderOptions = {}
+  ) {}
+
+  /**
+   * Send instructions in one transaction and wait for confirmation
+   *
+   * @returns Transaction signature
+   * @throws X402Error - TransactionFailed, TransactionExpired or TransactionUnknown,
+   * or a program error code if the simulation or the transaction fails in the program
+   */
+  async send(instructions: TransactionInstruction[]): Promise<string> {
+    const budget = await this.budget(instructions);
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+    const withBudget = insertComputeBudget(instructions, computeBudgetInstructions(budget));
+
+    const tx = await this.sign(
+      new VersionedTransaction(
+        new TransactionMessage({
+          payerKey: this.payer,
+          recentBlockhash: blockhash,
+          instructions: withBudget.instructions,
+        }).compileToV0Message()
+      )
+    );
+    const raw = tx.serialize();
+
+    // Already simulated; the RPC node shouldn't retry on its own, we rebroadcast
+    const signature = await this.connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 });
+
+    return this.confirm(signature, raw, lastValidBlockHeight, withBudget.inserted);
+  }
+
+  /**
+   * Compute-unit limit (from simulation) and priority fee for instructions
+   *
+   * @throws X402Error - The decoded error if the simulation fails
+   */
+  async budget(instructions: TransactionInstruction[]): Promise<ComputeBudget> {
+    const [units, microLamports] = await Promise.all([
+      this.estimateUnits(instructions),
+      this.priorityFee(instructions),
+    ]);
+    return { units, microLamports };
+  }
+
+  /**
+   * Priority fee in micro-lamports per compute unit
+   *
+   * Dynamic pricing takes a percentile of recent prioritization fees paid
+   * by transactions writing the same accounts.
+   */
+  async priorityFee(instructions: TransactionInstruction[]): Promise<number> {
+    const max = this.options.maxPriorityFee ?? DEFAULT_MAX_PRIORITY_FEE;
+    const setting = this.options.priorityFee ?? 'dynamic';
+
+    if (setting !== 'dynamic') {
+      return Math.min(setting, max);
+    }
+
+    const writable = new Map<string, PublicKey>();
+    for (const key of instructions.flatMap((ix) => ix.keys).filter((key) => key.isWritable)) {
+      writable.set(key.pubkey.toBase58(), key.pubkey);
+    }
+
+    try {
+      const recent = await this.connection.getRecentPrioritizationFees({
+        lockedWritableAccounts: Array.from(writable.values()),
+      });
+      const fees = recent.map((fee) => fee.prioritizationFee).sort((a, b) => a - b);
+      if (fees.length === 0) {
+        return 0;
+      }
+      const percentile = this.options.priorityFeePercentile ?? DEFAULT_PERCENTILE;
+      const index = Math.min(fees.length - 1, Math.floor((fees.length * percentile) / 100));
+      return Math.min(fees[index], max);
+    } catch (error: any) {
+      // Not every RPC node serves this; send without a priority fee rather than not at all
+      console.error('[Sender] Priority fee lookup failed:', error.message);
+      return 0;
+    }
+  }
+
+  private async estimateUnits(instructions: TransactionInstruction[]): Promise<number> {
+    // Simulate at the maximum limit so the estimate isn't capped by the default
+    const withLimit = insertComputeBudget(instructions, [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }),
+    ]);
+    const tx = new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: this.payer,
+        recentBlockhash: PublicKey.default.toBase58(), // Replaced by the RPC node
+        instructions: withLimit.instructions,
+      }).compileToV0Message()
+    );
+
+    const { value } = await this.connection.simulateTransaction(tx, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      commitment: 'confirmed',
+    });
+
+    if (value.err) {
+      throw classifyError({
+        message: `Transaction simulation failed: ${describeTransactionError(value.err, withLimit.inserted)}`,
+        logs: value.logs || [],
+      });
+    }
+
+    const margin = this.options.computeUnitMargin ?? DEFAULT_UNIT_MARGIN;
+    return Math.min(MAX_COMPUTE_UNITS, Math.ceil((value.unitsConsumed || 200_000) * margin) + COMPUTE_BUDGET_UNITS);
+  }
+
+  /**
+   * Rebroadcast and poll until the transaction confirms, fails or expires
+   */
+  private async confirm(
+    signature: string,
+    raw: Uint8Array,
+    lastValidBlockHeight: number,
+    inserted: InsertedInstructions
+  ): Promise<string> {
+    const interval = this.options.rebroadcastIntervalMs || DEFAULT_REBROADCAST_MS;
+    const deadline = Date.now() + MAX_CONFIRMATION_MS;
+    let lastError: Error | undefined;
+
+    while (Date.now() < deadline) {
+      await sleep(interval);
+
+      try {
+        const { value } = await this.connection.getSignatureStatuses([signature]);
+        const status = value[0];
+
+        if (status?.err) {
+          throw await this.failure(signature, status.err, inserted);
+        }
+        if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+          return signature;
+        }
+
+        const blockHeight = await this.connection.getBlockHeight('confirmed');
+        if (blockHeight > lastValidBlockHeight) {
+          return await this.settleExpired(signature, lastValidBlockHeight, inserted);
+        }
+
+        // Landing or not, resending the same signed bytes is harmless
+        await this.connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 }).catch(() => {});
+        lastError = undefined;
+      } catch (error: any) {
+        if (error instanceof X402Error) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+
+    throw new X402Error(
+      'TransactionUnknown',
+      `No confirmation for ${signature} within ${MAX_CONFIRMATION_MS / 1000} seconds` +
+        (lastError ? ` (last RPC error: ${lastError.message})` : ''),
+      { details: { signature, outcome: 'unknown' } }
+    );
+  }
+
+  /**
+   * The blockhash expired; a last look (including history) tells whether it landed
+   */
+  private async settleExpired(
+    signature: string,
+    lastValidBlockHeight: number,
+    inserted: InsertedInstructions
+  ): Promise<string> {
+    let status;
+    try {
+      ({
+        value: [status],
+      } = await this.connection.getSignatureStatuses([signature], { searchTransactionHistory: true }));
+    } catch (error: any) {
+      throw new X402Error(
+        'TransactionUnknown',
+        `Blockhash of ${signature} expired and its status couldn't be checked: ${error.message}`,
+        { details: { signature, outcome: 'unknown' } }
+      );
+    }
+
+    if (status?.err) {
+      throw await this.failure(signature, status.err, inserted);
+    }
+    if (status) {
+      return signature;
+    }
+
+    throw new X402Error(
+      'TransactionExpired',
+      `Transaction ${signature} did not land before block height ${lastValidBlockHeight}`,
+      { details: { signature, outcome: 'expired' } }
+    );
+  }
+
+  // Program errors keep their catalog code; anything else is TransactionFailed
+  private async failure(signature: string, err: TransactionError, inserted: InsertedInstructions): Promise<X402Error> {
+    const tx = await this.connection
+      .getTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 })
+      .catch(() => null);
+    const message = `Transaction ${signature} failed: ${describeTransactionError(err, inserted)}`;
+    const classified = classifyError({ message, logs: tx?.meta?.logMessages || [] });
+
+    return classified.category === 'program'
+      ? new X402Error(classified.code, classified.message, { details: { signature, outcome: 'failed' } })
+      : new X402Error('TransactionFailed', message, { details: { signature, outcome: 'failed' } });
+  }
+}
+
+/**
+ * Compute budget instructions (no price instruction without a priority fee)
+ */
+export function computeBudgetInstructions(budget: ComputeBudget): TransactionInstruction[] {
+  const instructions = [ComputeBudgetProgram.setComputeUnitLimit({ units: budget.units })];
+  if (budget.microLamports > 0) {
+    instructions.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: budget.microLamports }));
+  }
+  return instructions;
+}
+
+/**
+ * Insert compute budget instructions after any leading precompile
+ * instructions, so the caller's precompiles keep their indexes
+ */
+export function insertComputeBudget(
+  instructions: TransactionInstruction[],
+  budget: TransactionInstruction[]
+): { instructions: TransactionInstruction[]; inserted: InsertedInstructions } {
+  let at = 0;
+  while (at < instructions.length && PRECOMPILE_PROGRAMS.some((id) => id.equals(instructions[at].programId))) {
+    at++;
+  }
+
+  return {
+    instructions: [...instructions.slice(0, at), ...budget, ...instructions.slice(at)],
+    inserted: { at, count: budget.length },
+  };
+}
+
+/**
+ * Readable message for a transaction error, in the "custom program error: 0x..."
+ * form the error classifier matches
+ *
+ * @param inserted - Instructions the sender added, so indexes refer to the caller's instructions
+ */
+export function describeTransactionError(err: TransactionError, inserted?: InsertedInstructions): string {
+  const instructionError = (err as any)?.InstructionError;
+  if (Array.isArray(instructionError)) {
+    const [index, cause] = instructionError;
+    const detail =
+      typeof cause?.Custom === 'number'
+        ? `custom program error: 0x${cause.Custom.toString(16)}`
+        : typeof cause === 'string'
+          ? cause
+          : JSON.stringify(cause);
+
+    if (inserted && index >= inserted.at && index < inserted.at + inserted.count) {
+      return `compute budget instruction: ${detail}`;
+    }
+    const callerIndex = inserted && index >= inserted.at + inserted.count ? index - inserted.count : index;
+    return `instruction ${callerIndex}: ${detail}`;
+  }
+  return typeof err === 'string' ? err : JSON.stringify(err);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,321 @@
+import { AccountInfo, Logs, PublicKey } from '@solana/web3.js';
+import { X402Program } from './anchor.js';
+import { X402Event } from './events.js';
+import { parseEscrowStatus } from './transactions.js';
+
+export type EscrowStatusName = 'Active' | 'Released' | 'Disputed' | 'Resolved';
+
+/**
+ * State change of a tracked escrow
+ */
+export interface EscrowChange {
+  transactionId: string;
+  escrowAddress: string;
+  previousStatus?: EscrowStatusName;
+  status: EscrowStatusName;
+  agent?: string; // Agent wallet that created the escrow (unset until the escrow is seen on-chain)
+  source: 'logs' | 'account' | 'catchup';
+  signature?: string; // Set when the change came from a decoded event
+  event?: X402Event;
+}
+
+export type EscrowChangeListener = (change: EscrowChange) => void;
+
+export interface SubscriptionOptions {
+  catchUpIntervalMs?: number; // How often to poll for missed events (default: 30000)
+}
+
+interface TrackedEscrow {
+  transactionId: string;
+  escrowPDA: PublicKey;
+  agent?: PublicKey;
+  status?: EscrowStatusName;
+  lastSignature?: string;
+  accountSubscriptionId?: number;
+}
+
+const EVENT_STATUS: Record<X402Event['name'], EscrowStatusName> = {
+  EscrowInitialized: 'Active',
+  DisputeMarked: 'Disputed',
+  DisputeResolved: 'Resolved',
+  FundsReleased: 'Released',
+};
+
+/**
+ * Live escrow state subscriptions
+ *
+ * Listens to program logs and to each tracked escrow account over the
+ * RPC websocket. A periodic catch-up scans each escrow's transactions
+ * since the last seen signature, so changes missed while the websocket
+ * was down are still reported; if catch-up finds anything the websocket
+ * didn't deliver, all subscriptions are re-established.
+ */
+export class EscrowSubscriptionManager {
+  private escrows = new Map<string, TrackedEscrow>(); // Keyed by escrow PDA
+  private listeners: EscrowChangeListener[] = [];
+  private logsSubscriptionId?: number;
+  private catchUpTimer?: NodeJS.Timeout;
+  private catchingUp = false;
+
+  constructor(
+    private program: X402Program,
+    private options: SubscriptionOptions = {}
+  ) {}
+
+  private get connection() {
+    return this.program.program.provider.connection;
+  }
+
+  /**
+   * Register a listener for escrow state changes
+   */
+  onChange(listener: EscrowChangeListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Start listening to program logs and schedule catch-up
+   */
+  start(): void {
+    if (this.catchUpTimer) {
+      return;
+    }
+
+    this.subscribeLogs();
+    this.catchUpTimer = setInterval(() => {
+      this.catchUp().catch((error) => console.error('[Subscriptions] Catch-up failed:', error.message));
+    }, this.options.catchUpIntervalMs || 30_000);
+    this.catchUpTimer.unref();
+  }
+
+  /**
+   * Stop all subscriptions
+   */
+  async stop(): Promise<void> {
+    if (this.catchUpTimer) {
+      clearInterval(this.catchUpTimer);
+      this.catchUpTimer = undefined;
+    }
+
+    await this.unsubscribeAll();
+    this.escrows.clear();
+  }
+
+  /**
+   * Start tracking an escrow
+   *
+   * @param transactionId - Transaction ID of the escrow
+   */
+  async track(transactionId: string): Promise<void> {
+    const [escrowPDA] = this.program.pda.deriveEscrowPDA(transactionId);
+    const key = escrowPDA.toBase58();
+
+    if (this.escrows.has(key)) {
+      return;
+    }
+
+    const tracked: TrackedEscrow = { transactionId, escrowPDA };
+    this.escrows.set(key, tracked);
+
+    // Baseline so only later transitions are reported
+    try {
+      const escrow = await this.program.getEscrowAccount(escrowPDA);
+      tracked.status = parseEscrowStatus(escrow.status);
+      tracked.agent = escrow.agent;
+    } catch {
+      // Not confirmed yet, the first event sets the status
+    }
+
+    const [latest] = await this.connection
+      .getSignaturesForAddress(escrowPDA, { limit: 1 }, 'confirmed')
+      .catch(() => []);
+    tracked.lastSignature = latest?.signature;
+
+    this.subscribeAccount(tracked);
+  }
+
+  /**
+   * Stop tracking an escrow
+   */
+  async untrack(transactionId: string): Promise<void> {
+    const [escrowPDA] = this.program.pda.deriveEscrowPDA(transactionId);
+    const tracked = this.escrows.get(escrowPDA.toBase58());
+
+    if (!tracked) {
+      return;
+    }
+
+    this.escrows.delete(escrowPDA.toBase58());
+    if (tracked.accountSubscriptionId !== undefined) {
+      await this.connection.removeAccountChangeListener(tracked.accountSubscriptionId).catch(() => {});
+    }
+  }
+
+  /**
+   * Transaction IDs of tracked escrows
+   */
+  get trackedTransactionIds(): string[] {
+    return Array.from(this.escrows.values()).map((e) => e.transactionId);
+  }
+
+  /**
+   * Scan tracked escrows for transactions the websocket missed
+   */
+  async catchUp(): Promise<void> {
+    if (this.catchingUp) {
+      return;
+    }
+    this.catchingUp = true;
+
+    let missed = false;
+
+    try {
+      for (const tracked of this.escrows.values()) {
+        const history = await this.program.events.getAccountHistory(tracked.escrowPDA, {
+          until: tracked.lastSignature,
+        });
+
+        for (const tx of history) {
+          for (const event of tx.events) {
+            if (this.applyEvent(tracked, event, tx.signature, 'catchup')) {
+              missed = true;
+            }
+          }
+          tracked.lastSignature = tx.signature;
+        }
+      }
+    } finally {
+      this.catchingUp = false;
+    }
+
+    if (missed) {
+      console.error('[Subscriptions] Missed escrow events detected, resubscribing');
+      await this.resubscribe();
+    }
+  }
+
+  private subscribeLogs(): void {
+    this.logsSubscriptionId = this.connection.onLogs(
+      this.program.program.programId,
+      (logs) => this.handleLogs(logs),
+      'confirmed'
+    );
+  }
+
+  private subscribeAccount(tracked: TrackedEscrow): void {
+    tracked.accountSubscriptionId = this.connection.onAccountChange(
+      tracked.escrowPDA,
+      (info) => this.handleAccountChange(tracked, info),
+      { commitment: 'confirmed' }
+    );
+  }
+
+  private async unsubscribeAll(): Promise<void> {
+    if (this.logsSubscriptionId !== undefined) {
+      await this.connection.removeOnLogsListener(this.logsSubscriptionId).catch(() => {});
+      this.logsSubscriptionId = undefined;
+    }
+
+    for (const tracked of this.escrows.values()) {
+      if (tracked.accountSubscriptionId !== undefined) {
+        await this.connection.removeAccountChangeListener(tracked.accountSubscriptionId).catch(() => {});
+        tracked.accountSubscriptionId = undefined;
+      }
+    }
+  }
+
+  private async resubscribe(): Promise<void> {
+    await this.unsubscribeAll();
+    this.subscribeLogs();
+    for (const tracked of this.escrows.values()) {
+      this.subscribeAccount(tracked);
+    }
+  }
+
+  private handleLogs(logs: Logs): void {
+    if (logs.err) {
+      return;
+    }
+
+    for (const event of this.program.events.decodeLogs(logs.logs)) {
+      const tracked = this.escrows.get(event.data.escrow.toBase58());
+      if (tracked) {
+        this.applyEvent(tracked, event, logs.signature, 'logs');
+        tracked.lastSignature = logs.signature;
+      }
+    }
+  }
+
+  private handleAccountChange(tracked: TrackedEscrow, info: AccountInfo<Buffer>): void {
+    if (info.data.length === 0) {
+      // Closed account, the final state comes from the event logs
+      return;
+    }
+
+    this.program
+      .getEscrowAccount(tracked.escrowPDA)
+      .then((escrow) => {
+        tracked.agent ??= escrow.agent;
+        this.applyStatus(tracked, parseEscrowStatus(escrow.status), 'account');
+      })
+      .catch(() => {});
+  }
+
+  /**
+   * @returns True if the event changed the tracked status
+   */
+  private applyEvent(
+    tracked: TrackedEscrow,
+    event: X402Event,
+    signature: string,
+    source: EscrowChange['source']
+  ): boolean {
+    if (!event.data.escrow.equals(tracked.escrowPDA)) {
+      return false;
+    }
+    if ('agent' in event.data) {
+      tracked.agent ??= event.data.agent;
+    }
+    return this.applyStatus(tracked, EVENT_STATUS[event.name], source, signature, event);
+  }
+
+  private applyStatus(
+    tracked: TrackedEscrow,
+    status: EscrowStatusName,
+    source: EscrowChange['source'],
+    signature?: string,
+    event?: X402Event
+  ): boolean {
+    // Logs and account notifications both fire for one transaction
+    if (tracked.status === status) {
+      return false;
+    }
+
+    const change: EscrowChange = {
+      transactionId: tracked.transactionId,
+      escrowAddress: tracked.escrowPDA.toBase58(),
+      previousStatus: tracked.status,
+      status,
+      agent: tracked.agent?.toBase58(),
+      source,
+      signature,
+      event,
+    };
+    tracked.status = status;
+
+    for (const listener of this.listeners) {
+      try {
+        listener(change);
+      } catch (error: any) {
+        console.error('[Subscriptions] Listener failed:', error.message);
+      }
+    }
+
+    // Released and Resolved are final
+    if (status === 'Released' || status === 'Resolved') {
+      void this.untrack(tracked.transactionId);
+    }
+
+    return true;
+  }
+}
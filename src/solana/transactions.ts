@@ -79,6 +79,17 @@ export function parseEscrowStatus(status: any): 'Active' | 'Released' | 'Dispute
   throw new Error('Unknown escrow status');
 }
 
+/**
+ * Parse rate limiter verification level from on-chain data
+ */
+export function parseVerificationLevel(level: any): 'Basic' | 'Staked' | 'Social' | 'KYC' {
+  if ('basic' in level) return 'Basic';
+  if ('staked' in level) return 'Staked';
+  if ('social' in level) return 'Social';
+  if ('kyc' in level) return 'KYC';
+  throw new Error('Unknown verification level');
+}
+
 /**
  * Calculate refund amount from percentage
  */
@@ -0,0 +1,57 @@
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { toolError, ToolErrorFields } from '../errors.js';
+import { AgentIdentity } from '../identities/index.js';
+
+export interface ListAgentsParams {}
+
+export interface AgentIdentityInfo {
+  name: string;
+  wallet: string;
+  reputationAccount: string; // Reputation PDA of the wallet
+  signer: string; // Signer kind (keypair, keystore, remote)
+  balance?: number; // In SOL (undefined if the lookup failed)
+  policyConfigured: boolean; // False when the identity has no policy file (no limits apply)
+  current: boolean; // Used when agent is omitted
+}
+
+export interface ListAgentsResult extends ToolErrorFields {
+  success: boolean;
+  agents?: AgentIdentityInfo[];
+}
+
+/**
+ * List the agent identities a session can act as
+ *
+ * @param agents - Selectable identities (only the bound one for bound sessions)
+ * @param current - Identity used when a call doesn't select one
+ */
+export async function listAgents(
+  _params: ListAgentsParams,
+  agents: AgentIdentity[],
+  current: AgentIdentity
+): Promise<ListAgentsResult> {
+  try {
+    return {
+      success: true,
+      agents: await Promise.all(
+        agents.map(async (identity) => {
+          const wallet = identity.signer.publicKey;
+          const connection = identity.program.program.provider.connection;
+          const balance = await connection.getBalance(wallet, 'confirmed').catch(() => undefined);
+
+          return {
+            name: identity.name,
+            wallet: wallet.toBase58(),
+            reputationAccount: identity.program.pda.deriveReputationPDA(wallet)[0].toBase58(),
+            signer: identity.signer.name,
+            balance: balance === undefined ? undefined : balance / LAMPORTS_PER_SOL,
+            policyConfigured: !!identity.policyPath,
+            current: identity === current,
+          };
+        })
+      ),
+    };
+  } catch (error: any) {
+    return toolError(error, 'Failed to list agent identities');
+  }
+}
@@ -0,0 +1,127 @@
+import { timingSafeEqual } from 'crypto';
+import { failure, toolError, ToolErrorFields, wrapFailure } from '../errors.js';
+import { ApprovalQueue, PendingAction, PendingActionStatus } from '../policy/index.js';
+
+export interface ListPendingActionsParams {
+  status?: PendingActionStatus[]; // Any of these statuses (default: pending)
+}
+
+export interface ListPendingActionsResult extends ToolErrorFields {
+  success: boolean;
+  actions?: PendingAction[]; // Newest first
+  total?: number;
+}
+
+export interface ApproveActionParams {
+  actionId: string;
+  approverToken: string; // APPROVER_TOKEN, given by the human approver
+  approve?: boolean; // false rejects the action (default: true)
+  reason?: string; // Recorded with the decision
+}
+
+export interface ApproveActionResult extends ToolErrorFields {
+  success: boolean;
+  actionId?: string;
+  tool?: string;
+  status?: PendingActionStatus;
+  result?: any; // Result of the approved tool call
+}
+
+/**
+ * List actions waiting for (or settled by) human approval
+ */
+export async function listPendingActions(
+  params: ListPendingActionsParams,
+  approvals: ApprovalQueue
+): Promise<ListPendingActionsResult> {
+  try {
+    const actions = approvals.list(params.status && params.status.length > 0 ? params.status : ['pending']);
+
+    return {
+      success: true,
+      actions,
+      total: actions.length,
+    };
+  } catch (error: any) {
+    return toolError(error, 'Failed to list pending actions');
+  }
+}
+
+/**
+ * Approve or reject a pending action
+ *
+ * Approving runs the parked tool call with its original arguments. The
+ * tool's own checks (trust and spending policy, escrow state) still apply.
+ *
+ * The caller must present the approver token, which the model only has
+ * if a human hands it over, so an agent can't approve its own actions.
+ *
+ * @param execute - Runs the parked tool call
+ * @param approverToken - Server's approver token (unset disables the tool)
+ */
+export async function approveAction(
+  params: ApproveActionParams,
+  approvals: ApprovalQueue,
+  execute: (action: PendingAction) => Promise<any>,
+  approverToken?: string
+): Promise<ApproveActionResult> {
+  try {
+    if (!approverToken) {
+      return failure(
+        'ConfigurationError',
+        'approve_action is disabled: APPROVER_TOKEN is not set. Approve in the client when asked (MCP elicitation), or set APPROVER_TOKEN.'
+      );
+    }
+    if (!params.approverToken || !tokenEquals(params.approverToken, approverToken)) {
+      return failure('ApproverNotAuthorized', 'Approver token is missing or wrong');
+    }
+
+    const action = approvals.get(params.actionId);
+
+    if (!action) {
+      return failure('ValidationError', `Unknown action: ${params.actionId}`);
+    }
+
+    if (action.status === 'expired') {
+      return {
+        ...failure('ActionExpired', `Action ${action.id} expired at ${new Date(action.expiresAt * 1000).toISOString()}`),
+        actionId: action.id,
+        tool: action.tool,
+        status: action.status,
+      };
+    }
+
+    if (action.status !== 'pending') {
+      return {
+        ...failure('ValidationError', `Action ${action.id} was already ${action.status}`),
+        actionId: action.id,
+        tool: action.tool,
+        status: action.status,
+      };
+    }
+
+    if (params.approve === false) {
+      approvals.resolve(action.id, 'rejected', params.reason);
+      return { success: true, actionId: action.id, tool: action.tool, status: 'rejected' };
+    }
+
+    approvals.resolve(action.id, 'approved', params.reason);
+    const result = await execute(action);
+
+    return {
+      ...(result?.success === false ? wrapFailure(result, `Approved ${action.tool} failed`) : { success: true }),
+      actionId: action.id,
+      tool: action.tool,
+      status: 'approved',
+      result,
+    };
+  } catch (error: any) {
+    return toolError(error, 'Failed to approve action');
+  }
+}
+
+function tokenEquals(given: string, expected: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,52 @@
+import { toolError, ToolErrorFields } from '../errors.js';
+import { BudgetStatus, PolicyDecision, PolicyDenial, SpendingPolicyEngine } from '../policy/index.js';
+
+export interface GetBudgetStatusParams {
+  apiProvider?: string; // Include this provider's caps and spending
+  amount?: number; // Check whether a payment of this size would be allowed (in SOL)
+}
+
+export interface GetBudgetStatusResult extends ToolErrorFields {
+  success: boolean;
+  policyConfigured?: boolean; // False when no policy file is loaded (no limits apply)
+  wallet?: {
+    balance: number; // In SOL
+    minWalletReserve: number; // In SOL
+    spendable: number; // In SOL, before hitting the reserve
+  };
+  budget?: BudgetStatus;
+  decision?: PolicyDecision; // Set when amount is given
+  lastDenial?: PolicyDenial;
+}
+
+/**
+ * Get remaining spending headroom under the spending policy
+ *
+ * Reports caps, spent and remaining amounts per rolling window, the
+ * wallet reserve, and the reason for the most recent denial.
+ */
+export async function getBudgetStatus(
+  params: GetBudgetStatusParams,
+  policy: SpendingPolicyEngine
+): Promise<GetBudgetStatusResult> {
+  try {
+    const [wallet, budget] = await Promise.all([policy.getReserveStatus(), policy.getStatus(params.apiProvider)]);
+
+    const result: GetBudgetStatusResult = {
+      success: true,
+      policyConfigured: Object.keys(policy.policy).length > 0,
+      wallet,
+      budget,
+      lastDenial: policy.lastDenied,
+    };
+
+    if (params.amount !== undefined) {
+      // Without a provider only the wallet-wide rules are checked
+      result.decision = await policy.check({ amount: params.amount, provider: params.apiProvider });
+    }
+
+    return result;
+  } catch (error: any) {
+    return toolError(error, 'Failed to get budget status');
+  }
+}
@@ -1,56 +1,96 @@
-import { PublicKey } from '@solana/web3.js';
-import { X402Program } from '../solana/anchor.js';
-import { parseEscrowStatus } from '../solana/transactions.js';
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { SimulationResult, X402Program } from '../solana/anchor.js';
+import { buildVerifierMessage, ED25519_SIGNATURE_LENGTH, verifyEd25519 } from '../solana/ed25519.js';
+import { calculatePaymentAmount, calculateRefundAmount, lamportsToSol, parseEscrowStatus } from '../solana/transactions.js';
+import { VerifierClient } from '../verifier/index.js';
+import { Ledger } from '../ledger/index.js';
+import { DryRunFields, simulated } from './simulation.js';
+import { failure, toolError, ToolErrorFields } from '../errors.js';
 
 export interface FileDisputeParams {
   transactionId: string;
   qualityScore: number; // 0-100
   evidence: Record<string, any>; // Evidence supporting the dispute
   refundPercentage: number; // 0-100
+  dryRun?: boolean; // Simulate without sending (default: false)
 }
 
-export interface FileDisputeResult {
+export interface FileDisputeResult extends ToolErrorFields, DryRunFields {
   success: boolean;
   disputeId?: string;
   status?: 'disputed';
   signature?: string;
   message?: string;
-  error?: string;
+}
+
+export type ResolutionStrategy = 'verifier' | 'switchboard';
+
+/**
+ * Server-wide dispute resolution settings
+ */
+export interface DisputeResolutionConfig {
+  strategy: ResolutionStrategy; // Default strategy when the tool call doesn't pick one
+  verifier?: VerifierClient; // Ed25519 verifier oracle (unset when only Switchboard is configured)
+  switchboardFunction?: PublicKey; // Default Switchboard function account
+}
+
+export interface ResolveDisputeParams {
+  transactionId: string;
+  strategy?: ResolutionStrategy; // Overrides the server default
+  evidence?: Record<string, any>; // Evidence for the verifier (API response, assessment, etc.)
+  qualityScore?: number; // Agent's assessment (0-100)
+  refundPercentage?: number; // Agent's requested refund (0-100)
+  switchboardFunction?: string; // Switchboard function account (switchboard strategy)
+  dryRun?: boolean; // Simulate without sending (default: false)
+}
+
+export interface ResolveDisputeResult extends ToolErrorFields, DryRunFields {
+  success: boolean;
+  transactionId?: string;
+  status?: 'resolved';
+  strategy?: ResolutionStrategy;
+  qualityScore?: number;
+  refundPercentage?: number;
+  refundAmount?: number; // In SOL
+  paymentAmount?: number; // In SOL
+  currency?: string;
+  verifier?: string; // Verifier oracle or Switchboard function account
+  signature?: string;
+  message?: string;
 }
 
 /**
  * File a dispute for an escrow
  *
- * This marks the escrow as disputed on-chain. In production,
- * this would also submit the dispute to a verifier oracle
- * for quality assessment and resolution.
+ * This marks the escrow as disputed on-chain. Resolution is a
+ * separate step: resolve_dispute submits the evidence to the
+ * verifier oracle and settles the escrow with its signature.
  *
- * For now, this only marks the escrow as disputed. The actual
- * resolution with oracle signature would be handled separately
- * via resolve_dispute instruction.
+ * @param ledger - Records the dispute and its evidence (optional)
  */
 export async function fileDispute(
   params: FileDisputeParams,
-  program: X402Program
+  program: X402Program,
+  ledger?: Ledger
 ): Promise<FileDisputeResult> {
   try {
     // Validate inputs
     if (!params.transactionId) {
-      return { success: false, error: 'Transaction ID is required' };
+      return failure('ValidationError', 'Transaction ID is required');
     }
 
     if (params.qualityScore < 0 || params.qualityScore > 100) {
-      return { success: false, error: 'Quality score must be between 0 and 100' };
+      return failure('InvalidQualityScore', 'Quality score must be between 0 and 100');
     }
 
     if (params.refundPercentage < 0 || params.refundPercentage > 100) {
-      return { success: false, error: 'Refund percentage must be between 0 and 100' };
+      return failure('InvalidRefundPercentage', 'Refund percentage must be between 0 and 100');
     }
 
     // Check if escrow exists
     const exists = await program.escrowExists(params.transactionId);
     if (!exists) {
-      return { success: false, error: 'Escrow not found' };
+      return failure('AccountNotFound', 'Escrow not found');
     }
 
     // Get escrow account to verify status
@@ -60,9 +100,20 @@ export async function fileDispute(
 
     // Verify escrow is active
     if (status !== 'Active') {
+      return failure(
+        'InvalidStatus',
+        `Cannot dispute escrow in ${status} status. Only Active escrows can be disputed.`
+      );
+    }
+
+    if (params.dryRun) {
+      const simulation = await program.markDisputed(params.transactionId, {
+        dryRun: true,
+        preInstructions: await reputationSetup([program.program.provider.publicKey!], program),
+      });
       return {
-        success: false,
-        error: `Cannot dispute escrow in ${status} status. Only Active escrows can be disputed.`,
+        ...simulated(simulation, 'Dispute would fail', FILE_DISPUTE_ERRORS),
+        disputeId: params.transactionId,
       };
     }
 
@@ -75,42 +126,350 @@ export async function fileDispute(
     // Mark escrow as disputed
     const signature = await program.markDisputed(params.transactionId);
 
-    // In a production system, we would also:
-    // 1. Submit evidence to verifier oracle
-    // 2. Wait for oracle assessment
-    // 3. Get Ed25519 signature from oracle
-    // 4. Call resolve_dispute with signature
-    //
-    // For this MCP implementation, the dispute filing is separate
-    // from resolution. The verifier oracle integration would be
-    // implemented as a separate service.
+    ledger?.record({
+      type: 'dispute_filed',
+      transactionId: params.transactionId,
+      signature,
+      qualityScore: params.qualityScore,
+      refundPercentage: params.refundPercentage,
+      evidence: params.evidence,
+    });
 
     return {
       success: true,
       disputeId: params.transactionId,
       status: 'disputed',
       signature,
-      message: `Dispute filed for transaction ${params.transactionId}. Quality score: ${params.qualityScore}, Refund: ${params.refundPercentage}%. Waiting for verifier oracle resolution.`,
+      message: `Dispute filed for transaction ${params.transactionId}. Quality score: ${params.qualityScore}, Refund: ${params.refundPercentage}%. Call resolve_dispute to submit evidence to the verifier oracle.`,
     };
   } catch (error: any) {
-    // Parse common Anchor errors
-    let errorMessage = error.message || 'Failed to file dispute';
+    return toolError(error, 'Failed to file dispute', FILE_DISPUTE_ERRORS);
+  }
+}
+
+const FILE_DISPUTE_ERRORS = {
+  DisputeWindowExpired: 'Dispute window has expired. Cannot dispute after time lock expires.',
+  Unauthorized: 'Only the agent who created the escrow can file a dispute.',
+};
+
+/**
+ * Resolve a disputed escrow
+ *
+ * With the verifier strategy:
+ * 1. Submit evidence to the verifier oracle
+ * 2. Check the returned Ed25519 signature against the pinned verifier key
+ * 3. Call resolve_dispute with the Ed25519 precompile instruction
+ *
+ * Nothing is sent on-chain until the attestation checks out. Dry runs
+ * don't send evidence to a remote verifier: they report the split for
+ * the agent's assessment without simulating the transaction, which needs
+ * the verifier's signature.
+ *
+ * With the switchboard strategy, the agent's assessment is submitted
+ * and the program checks it against the Switchboard function result.
+ *
+ * @param ledger - Records the outcome (optional)
+ */
+export async function resolveDispute(
+  params: ResolveDisputeParams,
+  program: X402Program,
+  resolution: DisputeResolutionConfig,
+  ledger?: Ledger
+): Promise<ResolveDisputeResult> {
+  try {
+    // Validate inputs
+    if (!params.transactionId) {
+      return failure('ValidationError', 'Transaction ID is required');
+    }
 
-    if (errorMessage.includes('DisputeWindowExpired')) {
-      errorMessage = 'Dispute window has expired. Cannot dispute after time lock expires.';
-    } else if (errorMessage.includes('InsufficientDisputeFunds')) {
-      errorMessage = 'Insufficient funds to pay dispute cost.';
-    } else if (errorMessage.includes('Unauthorized')) {
-      errorMessage = 'Only the agent who created the escrow can file a dispute.';
+    const strategy = params.strategy || resolution.strategy;
+    if (strategy !== 'verifier' && strategy !== 'switchboard') {
+      return failure('ValidationError', `Unknown resolution strategy: ${strategy}`);
     }
 
-    return {
-      success: false,
-      error: errorMessage,
+    // Check if escrow exists
+    const exists = await program.escrowExists(params.transactionId);
+    if (!exists) {
+      return failure('AccountNotFound', 'Escrow not found');
+    }
+
+    const [escrowPDA] = program.pda.deriveEscrowPDA(params.transactionId);
+    const escrow = await program.getEscrowAccount(escrowPDA);
+    const status = parseEscrowStatus(escrow.status);
+
+    // Verify escrow is disputed
+    if (status === 'Active') {
+      return failure('InvalidStatus', 'Escrow is not disputed yet. Call file_dispute first.');
+    }
+    if (status !== 'Disputed') {
+      return failure(
+        'InvalidStatus',
+        `Cannot resolve escrow in ${status} status. Only Disputed escrows can be resolved.`
+      );
+    }
+
+    // Verify this wallet created the escrow
+    const agentPubkey = program.program.provider.publicKey!;
+    if (!escrow.agent.equals(agentPubkey)) {
+      return failure(
+        'Unauthorized',
+        `Escrow belongs to agent ${escrow.agent.toBase58()}. Only the agent who created the escrow can resolve it.`
+      );
+    }
+
+    let qualityScore: number;
+    let refundPercentage: number;
+    let verifier: PublicKey;
+    let signature: string;
+    let simulation: SimulationResult | undefined;
+
+    if (strategy === 'switchboard') {
+      const switchboardFunction = params.switchboardFunction
+        ? new PublicKey(params.switchboardFunction)
+        : resolution.switchboardFunction;
+
+      if (!switchboardFunction) {
+        return failure(
+          'ConfigurationError',
+          'Switchboard function account is required. Pass switchboardFunction or set SWITCHBOARD_FUNCTION.'
+        );
+      }
+
+      // The program compares the submitted values with the function's result
+      if (params.qualityScore === undefined || params.refundPercentage === undefined) {
+        return failure(
+          'ValidationError',
+          'qualityScore and refundPercentage are required for Switchboard resolution'
+        );
+      }
+      if (params.qualityScore < 0 || params.qualityScore > 100) {
+        return failure('InvalidQualityScore', 'Quality score must be between 0 and 100');
+      }
+      if (params.refundPercentage < 0 || params.refundPercentage > 100) {
+        return failure('InvalidRefundPercentage', 'Refund percentage must be between 0 and 100');
+      }
+
+      qualityScore = params.qualityScore;
+      refundPercentage = params.refundPercentage;
+      verifier = switchboardFunction;
+      const args = { transactionId: params.transactionId, qualityScore, refundPercentage, switchboardFunction };
+
+      if (params.dryRun) {
+        simulation = await program.resolveDisputeSwitchboard(args, {
+          dryRun: true,
+          preInstructions: await reputationSetup([escrow.agent, escrow.api], program),
+        });
+      } else {
+        await ensureReputations(escrow.agent, escrow.api, program);
+        signature = await program.resolveDisputeSwitchboard(args);
+      }
+    } else {
+      if (!resolution.verifier) {
+        return failure(
+          'ConfigurationError',
+          'No verifier oracle is configured. Set VERIFIER_URL and VERIFIER_PUBKEY, or use the switchboard strategy.'
+        );
+      }
+
+      if (params.dryRun && resolution.verifier.remote) {
+        if (params.qualityScore === undefined || params.refundPercentage === undefined) {
+          return failure(
+            'ValidationError',
+            'qualityScore and refundPercentage are required for a dry run, as the verifier oracle is not consulted'
+          );
+        }
+        if (params.qualityScore < 0 || params.qualityScore > 100) {
+          return failure('InvalidQualityScore', 'Quality score must be between 0 and 100');
+        }
+        if (params.refundPercentage < 0 || params.refundPercentage > 100) {
+          return failure('InvalidRefundPercentage', 'Refund percentage must be between 0 and 100');
+        }
+
+        const amount = Number(escrow.amount);
+        return {
+          success: true,
+          dryRun: true,
+          transactionId: params.transactionId,
+          strategy,
+          qualityScore: params.qualityScore,
+          refundPercentage: params.refundPercentage,
+          refundAmount: lamportsToSol(calculateRefundAmount(amount, params.refundPercentage)),
+          paymentAmount: lamportsToSol(calculatePaymentAmount(amount, params.refundPercentage)),
+          currency: 'SOL',
+          verifier: resolution.verifier.publicKey.toBase58(),
+          message:
+            'Dry run: evidence was not sent to the verifier oracle and the resolution was not simulated. The split assumes the verifier agrees with your assessment.',
+        };
+      }
+
+      // Submit evidence to verifier oracle
+      const attestation = await resolution.verifier.assess({
+        transactionId: params.transactionId,
+        escrow: escrowPDA,
+        agent: escrow.agent,
+        api: escrow.api,
+        amount: Number(escrow.amount),
+        qualityScore: params.qualityScore,
+        refundPercentage: params.refundPercentage,
+        evidence: params.evidence || {},
+      });
+
+      if (attestation.qualityScore < 0 || attestation.qualityScore > 100) {
+        return failure(
+          'VerifierError',
+          `Verifier returned invalid quality score ${attestation.qualityScore}`
+        );
+      }
+      if (attestation.refundPercentage < 0 || attestation.refundPercentage > 100) {
+        return failure(
+          'VerifierError',
+          `Verifier returned invalid refund percentage ${attestation.refundPercentage}`
+        );
+      }
+      if (attestation.signature.length !== ED25519_SIGNATURE_LENGTH) {
+        return failure(
+          'VerifierError',
+          `Verifier signature must be ${ED25519_SIGNATURE_LENGTH} bytes, got ${attestation.signature.length}`
+        );
+      }
+
+      // Only the pinned verifier key is trusted, whatever the oracle claims
+      const trusted = resolution.verifier.publicKey;
+      if (!attestation.verifier.equals(trusted)) {
+        return failure(
+          'VerifierError',
+          `Attestation is signed by ${attestation.verifier.toBase58()}, not the configured verifier ${trusted.toBase58()}`
+        );
+      }
+
+      // Check the signature before paying for a transaction that would fail
+      const message = buildVerifierMessage(params.transactionId, attestation.qualityScore);
+      if (!verifyEd25519(trusted, message, attestation.signature)) {
+        return failure('VerifierError', `Verifier signature does not match verifier ${trusted.toBase58()}`);
+      }
+
+      qualityScore = attestation.qualityScore;
+      refundPercentage = attestation.refundPercentage;
+      verifier = trusted;
+      const args = {
+        transactionId: params.transactionId,
+        qualityScore,
+        refundPercentage,
+        signature: attestation.signature,
+        verifier,
+      };
+
+      if (params.dryRun) {
+        simulation = await program.resolveDispute(args, {
+          dryRun: true,
+          preInstructions: await reputationSetup([escrow.agent, escrow.api], program),
+        });
+      } else {
+        await ensureReputations(escrow.agent, escrow.api, program);
+        signature = await program.resolveDispute(args);
+      }
+    }
+
+    const amount = Number(escrow.amount);
+    let refundAmount = calculateRefundAmount(amount, refundPercentage);
+    let paymentAmount = calculatePaymentAmount(amount, refundPercentage);
+
+    if (simulation) {
+      const resolved = simulation.events.find((e) => e.name === 'DisputeResolved');
+      if (resolved?.name === 'DisputeResolved') {
+        refundAmount = Number(resolved.data.refundAmount);
+        paymentAmount = Number(resolved.data.paymentAmount);
+      }
+
+      return {
+        ...simulated(simulation, 'Dispute resolution would fail', RESOLVE_DISPUTE_ERRORS),
+        transactionId: params.transactionId,
+        strategy,
+        qualityScore,
+        refundPercentage,
+        refundAmount: lamportsToSol(refundAmount),
+        paymentAmount: lamportsToSol(paymentAmount),
+        currency: 'SOL',
+        verifier: verifier.toBase58(),
+      };
+    }
+
+    // Report the actual split from the DisputeResolved event, falling back
+    // to the expected split if the transaction isn't queryable yet
+    const txEvents = await program.events.decodeTransaction(signature).catch(() => null);
+    const resolved = txEvents?.events.find((e) => e.name === 'DisputeResolved');
+    if (resolved?.name === 'DisputeResolved') {
+      refundAmount = Number(resolved.data.refundAmount);
+      paymentAmount = Number(resolved.data.paymentAmount);
+    }
+
+    const result: ResolveDisputeResult = {
+      success: true,
+      transactionId: params.transactionId,
+      status: 'resolved',
+      strategy,
+      qualityScore,
+      refundPercentage,
+      refundAmount: lamportsToSol(refundAmount),
+      paymentAmount: lamportsToSol(paymentAmount),
+      currency: 'SOL',
+      verifier: verifier.toBase58(),
+      signature,
     };
+
+    ledger?.record({
+      type: 'dispute_resolved',
+      transactionId: params.transactionId,
+      signature,
+      strategy,
+      qualityScore,
+      refundPercentage,
+      refundAmount: result.refundAmount,
+      paymentAmount: result.paymentAmount,
+      verifier: result.verifier,
+    });
+
+    return result;
+  } catch (error: any) {
+    return toolError(error, 'Failed to resolve dispute', RESOLVE_DISPUTE_ERRORS);
   }
 }
 
+const RESOLVE_DISPUTE_ERRORS = {
+  InvalidSwitchboardAttestation: 'Switchboard function account holds no valid attestation for this escrow.',
+  StaleAttestation: 'Switchboard attestation is older than 60 seconds.',
+  QualityScoreMismatch: 'Submitted quality score differs from the Switchboard result.',
+  InvalidSignature: 'Program rejected the verifier signature.',
+  InvalidStatus: 'Escrow is no longer Disputed. It may have been resolved already.',
+  Unauthorized: 'Only the agent who created the escrow can resolve the dispute.',
+};
+
+/**
+ * Both reputation accounts are updated on resolution
+ */
+async function ensureReputations(agent: PublicKey, api: PublicKey, program: X402Program): Promise<void> {
+  if (!(await program.reputationExists(agent))) {
+    await program.initReputation(agent);
+  }
+  if (!(await program.reputationExists(api))) {
+    await program.initReputation(api);
+  }
+}
+
+/**
+ * initReputation instructions for entities without a reputation account,
+ * so a dry run can simulate them in the same transaction
+ */
+async function reputationSetup(entities: PublicKey[], program: X402Program): Promise<TransactionInstruction[]> {
+  const instructions: TransactionInstruction[] = [];
+  for (const entity of entities) {
+    if (!(await program.reputationExists(entity))) {
+      instructions.push(await program.initReputationInstruction(entity));
+    }
+  }
+  return instructions;
+}
+
 /**
  * Get dispute cost for an entity based on their reputation
  *
@@ -167,9 +526,6 @@ export async function getDisputeCost(
       cost: cost / 1_000_000_000, // Return in SOL
     };
   } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Failed to calculate dispute cost',
-    };
+    return toolError(error, 'Failed to calculate dispute cost');
   }
 }
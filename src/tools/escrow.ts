@@ -1,19 +1,26 @@
+import { AnchorProvider } from '@coral-xyz/anchor';
 import { PublicKey } from '@solana/web3.js';
-import { X402Program } from '../solana/anchor.js';
-import { generateTransactionId, parseEscrowStatus, lamportsToSol, solToLamports } from '../solana/transactions.js';
+import { EscrowAccount, X402Program } from '../solana/anchor.js';
+import { generateTransactionId, lamportsToSol, parseEscrowStatus, solToLamports } from '../solana/transactions.js';
+import { failure, toolError, ToolErrorFields } from '../errors.js';
+import { Ledger } from '../ledger/index.js';
+import { PolicySet } from '../policy/index.js';
+import { DryRunFields, simulated } from './simulation.js';
 
 export interface CreateEscrowParams {
   api: string; // API provider wallet address
   amount: number; // Payment amount in SOL
   timeLock?: number; // Escrow expiry in seconds (default: 3600 = 1 hour)
+  dryRun?: boolean; // Simulate without sending (default: false)
 }
 
-export interface CreateEscrowResult {
+export interface CreateEscrowResult extends ToolErrorFields, DryRunFields {
   success: boolean;
   escrowAddress?: string;
   transactionId?: string;
+  amount?: number; // In SOL
+  currency?: string; // 'SOL'
   signature?: string;
-  error?: string;
 }
 
 export interface CheckEscrowParams {
@@ -21,50 +28,76 @@ export interface CheckEscrowParams {
   transactionId?: string;
 }
 
-export interface CheckEscrowResult {
+export interface CheckEscrowResult extends ToolErrorFields {
   success: boolean;
+  escrowAddress?: string;
   status?: 'Active' | 'Disputed' | 'Resolved' | 'Released';
   agent?: string;
   api?: string;
   amount?: number; // In SOL
+  currency?: string; // 'SOL'
   createdAt?: number;
   expiresAt?: number;
   transactionId?: string;
   qualityScore?: number;
   refundPercentage?: number;
-  error?: string;
+}
+
+export interface ListEscrowsParams {
+  agent?: string; // Agent wallet address (default: this agent)
+  apiProvider?: string; // Only escrows paying this provider
+  status?: Array<'Active' | 'Disputed' | 'Resolved' | 'Released'>; // Any of these statuses
+  expiresAfter?: number; // Unix timestamp
+  expiresBefore?: number; // Unix timestamp
+  offset?: number; // Pagination offset (default: 0)
+  limit?: number; // Page size (default: 20, max: 100)
+}
+
+export interface ListEscrowsResult extends ToolErrorFields {
+  success: boolean;
+  escrows?: CheckEscrowResult[]; // Newest first
+  total?: number; // Matches before pagination
+  nextOffset?: number; // Set if more results remain
 }
 
 export interface VerifyPaymentParams {
   transactionId: string;
 }
 
-export interface VerifyPaymentResult {
+export interface VerifyPaymentResult extends ToolErrorFields {
   success: boolean;
   verified?: boolean;
   escrowAddress?: string;
   amount?: number; // In SOL
+  currency?: string;
   status?: string;
-  error?: string;
 }
 
 /**
  * Create a new escrow for API payment
+ *
+ * @param policy - Trust and spending policies checked before any funds move (optional)
+ * @param ledger - Records the new escrow (optional)
  */
 export async function createEscrow(
   params: CreateEscrowParams,
-  program: X402Program
+  program: X402Program,
+  policy?: PolicySet,
+  ledger?: Ledger
 ): Promise<CreateEscrowResult> {
+  let reservation: string | undefined;
   try {
     // Validate inputs
     if (!params.api) {
-      return { success: false, error: 'API provider address is required' };
+      return failure('ValidationError', 'API provider address is required');
     }
 
     if (!params.amount || params.amount <= 0) {
-      return { success: false, error: 'Amount must be greater than 0' };
+      return failure('InvalidAmount', 'Amount must be greater than 0');
     }
 
+    const provider = program.program.provider as AnchorProvider;
+
     // Convert amount to lamports
     const amountLamports = solToLamports(params.amount);
 
@@ -73,52 +106,114 @@ export async function createEscrow(
     const MAX_ESCROW_AMOUNT = 1_000_000_000_000; // 1000 SOL
 
     if (amountLamports < MIN_ESCROW_AMOUNT) {
-      return { success: false, error: 'Amount too small (minimum 0.001 SOL)' };
+      return failure('InvalidAmount', 'Amount too small (minimum 0.001 SOL)');
     }
 
     if (amountLamports > MAX_ESCROW_AMOUNT) {
-      return { success: false, error: 'Amount too large (maximum 1000 SOL)' };
+      return failure('AmountTooLarge', 'Amount too large (maximum 1000 SOL)');
     }
 
     // Parse API provider public key
     const apiPublicKey = new PublicKey(params.api);
 
+    const spend = {
+      amount: lamportsToSol(amountLamports),
+      currency: 'SOL',
+      provider: apiPublicKey.toBase58(),
+    };
+
+    // The provider's trust tier sets the amount cap and default time lock
+    const trust = policy?.trust.evaluate({ provider: spend.provider });
+    if (trust && !trust.allowed) {
+      return failure('ProviderNotAllowed', trust.reason, { rule: trust.rule });
+    }
+    if (trust?.defaults.maxAmount !== undefined && spend.amount > trust.defaults.maxAmount) {
+      return failure(
+        'PolicyDenied',
+        `${spend.amount} ${spend.currency} exceeds the ${trust.defaults.maxAmount} cap of trust tier ${trust.tier}`,
+        { rule: `tiers.${trust.tier}.maxAmount` }
+      );
+    }
+
+    // Check caps, budgets and the wallet reserve (dry runs don't count as denials)
+    if (policy) {
+      const decision = params.dryRun ? await policy.spending.check(spend) : await policy.spending.evaluate(spend);
+      if (!decision.allowed) {
+        return failure('PolicyDenied', decision.reason, { rule: decision.rule });
+      }
+      reservation = decision.reservation;
+    }
+
+    // Check the agent can cover the escrow
+    const balanceError = await checkBalance(provider, amountLamports);
+    if (balanceError) {
+      return failure('InsufficientFunds', balanceError);
+    }
+
     // Generate unique transaction ID
     const transactionId = generateTransactionId();
 
-    // Default time lock: 1 hour (3600 seconds)
-    const timeLock = params.timeLock || 3600;
+    // Default time lock: the provider's tier, else 1 hour (3600 seconds)
+    const timeLock = params.timeLock || trust?.defaults.timeLock || 3600;
 
     // Validate time lock
     const MIN_TIME_LOCK = 3600; // 1 hour
     const MAX_TIME_LOCK = 2_592_000; // 30 days
 
     if (timeLock < MIN_TIME_LOCK || timeLock > MAX_TIME_LOCK) {
+      return failure(
+        'InvalidTimeLock',
+        `Time lock must be between ${MIN_TIME_LOCK} and ${MAX_TIME_LOCK} seconds`
+      );
+    }
+
+    if (params.dryRun) {
+      const simulation = await program.initializeEscrow(
+        { api: apiPublicKey, amount: amountLamports, timeLock, transactionId },
+        { dryRun: true }
+      );
+
       return {
-        success: false,
-        error: `Time lock must be between ${MIN_TIME_LOCK} and ${MAX_TIME_LOCK} seconds`,
+        ...simulated(simulation, 'Escrow creation would fail'),
+        escrowAddress: simulation.escrowPDA.toBase58(),
+        transactionId,
+        amount: spend.amount,
+        currency: spend.currency,
       };
     }
 
     // Initialize escrow
-    const result = await program.initializeEscrow({
-      api: apiPublicKey,
-      amount: amountLamports,
-      timeLock,
+    const result = await program.initializeEscrow({ api: apiPublicKey, amount: amountLamports, timeLock, transactionId });
+
+    const createdAt = Math.floor(Date.now() / 1000);
+    policy?.spending.record({ ...spend, transactionId, createdAt }, reservation);
+    ledger?.record({
+      type: 'escrow_created',
       transactionId,
+      escrowAddress: result.escrowPDA.toBase58(),
+      agent: provider.publicKey.toBase58(),
+      provider: spend.provider,
+      amount: spend.amount,
+      currency: spend.currency,
+      createdAt,
+      expiresAt: createdAt + timeLock,
+      signature: result.signature,
+      source: 'server',
     });
 
     return {
       success: true,
       escrowAddress: result.escrowPDA.toBase58(),
       transactionId,
+      amount: spend.amount,
+      currency: spend.currency,
       signature: result.signature,
     };
   } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Failed to create escrow',
-    };
+    return toolError(error, 'Failed to create escrow');
+  } finally {
+    // Spends that didn't go through give their budget back
+    policy?.spending.release(reservation);
   }
 }
 
@@ -137,32 +232,100 @@ export async function checkEscrowStatus(
     } else if (params.transactionId) {
       [escrowPDA] = program.pda.deriveEscrowPDA(params.transactionId);
     } else {
-      return { success: false, error: 'Either escrowAddress or transactionId is required' };
+      return failure('ValidationError', 'Either escrowAddress or transactionId is required');
     }
 
     // Fetch escrow account
     const escrow = await program.getEscrowAccount(escrowPDA);
 
+    return toEscrowResult(escrowPDA, escrow);
+  } catch (error: any) {
+    return toolError(error, 'Failed to fetch escrow status');
+  }
+}
+
+/**
+ * List escrows created by an agent
+ *
+ * Agent, provider and single-status filters run on the RPC node as
+ * memcmp filters on the Escrow layout; expiry windows and multiple
+ * statuses are filtered locally.
+ */
+export async function listEscrows(
+  params: ListEscrowsParams,
+  program: X402Program
+): Promise<ListEscrowsResult> {
+  try {
+    const agent = params.agent ? new PublicKey(params.agent) : program.program.provider.publicKey!;
+    const api = params.apiProvider ? new PublicKey(params.apiProvider) : undefined;
+    const statuses = params.status || [];
+
+    const offset = Math.max(0, params.offset || 0);
+    const limit = Math.min(Math.max(1, params.limit || 20), 100);
+
+    const accounts = await program.listEscrows({
+      agent,
+      api,
+      status: statuses.length === 1 ? statuses[0] : undefined,
+    });
+
+    const matches = accounts
+      .map(({ publicKey, account }) => toEscrowResult(publicKey, account))
+      .filter((escrow) => {
+        if (statuses.length > 1 && !statuses.includes(escrow.status!)) return false;
+        if (params.expiresAfter !== undefined && escrow.expiresAt! <= params.expiresAfter) return false;
+        if (params.expiresBefore !== undefined && escrow.expiresAt! >= params.expiresBefore) return false;
+        return true;
+      })
+      .sort((a, b) => b.createdAt! - a.createdAt!);
+
+    const page = matches.slice(offset, offset + limit);
+
     return {
       success: true,
-      status: parseEscrowStatus(escrow.status),
-      agent: escrow.agent.toBase58(),
-      api: escrow.api.toBase58(),
-      amount: lamportsToSol(Number(escrow.amount)),
-      createdAt: Number(escrow.createdAt),
-      expiresAt: Number(escrow.expiresAt),
-      transactionId: escrow.transactionId,
-      qualityScore: escrow.qualityScore !== null ? escrow.qualityScore : undefined,
-      refundPercentage: escrow.refundPercentage !== null ? escrow.refundPercentage : undefined,
+      escrows: page,
+      total: matches.length,
+      nextOffset: offset + page.length < matches.length ? offset + page.length : undefined,
     };
   } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Failed to fetch escrow status',
-    };
+    return toolError(error, 'Failed to list escrows');
   }
 }
 
+/**
+ * Check the agent wallet holds enough to fund an escrow
+ *
+ * @returns Error message, or undefined if the balance is sufficient
+ */
+async function checkBalance(provider: AnchorProvider, amountLamports: number): Promise<string | undefined> {
+  const balance = await provider.connection.getBalance(provider.publicKey);
+
+  if (balance < amountLamports) {
+    const have = lamportsToSol(balance);
+    const need = lamportsToSol(amountLamports);
+    return `Insufficient SOL balance: have ${have}, need ${need}`;
+  }
+
+  return undefined;
+}
+
+function toEscrowResult(escrowPDA: PublicKey, escrow: EscrowAccount): CheckEscrowResult {
+  return {
+    success: true,
+    escrowAddress: escrowPDA.toBase58(),
+    status: parseEscrowStatus(escrow.status),
+    agent: escrow.agent.toBase58(),
+    api: escrow.api.toBase58(),
+    amount: lamportsToSol(Number(escrow.amount)),
+    currency: 'SOL',
+    createdAt: Number(escrow.createdAt),
+    expiresAt: Number(escrow.expiresAt),
+    transactionId: escrow.transactionId,
+    qualityScore: escrow.qualityScore !== null ? escrow.qualityScore : undefined,
+    refundPercentage: escrow.refundPercentage !== null ? escrow.refundPercentage : undefined,
+  };
+}
+
 /**
  * Verify that payment was received and escrow is active
  */
@@ -193,13 +356,184 @@ export async function verifyPayment(
       verified: status === 'Active',
       escrowAddress: escrowPDA.toBase58(),
       amount: lamportsToSol(Number(escrow.amount)),
+      currency: 'SOL',
       status,
     };
   } catch (error: any) {
     return {
-      success: false,
+      ...toolError(error, 'Failed to verify payment'),
       verified: false,
-      error: error.message || 'Failed to verify payment',
     };
   }
 }
+
+export interface ReleaseFundsParams {
+  transactionId: string;
+  dryRun?: boolean; // Simulate without sending (default: false)
+}
+
+export interface ReleaseFundsResult extends ToolErrorFields, DryRunFields {
+  success: boolean;
+  transactionId?: string;
+  escrowAddress?: string;
+  api?: string;
+  amountReleased?: number; // In SOL
+  currency?: string;
+  status?: 'Released';
+  signature?: string;
+}
+
+/**
+ * Release escrowed funds to the API provider (happy path - no dispute)
+ *
+ * Only the agent that created the escrow can release it before expiry,
+ * and only while the escrow is still Active.
+ *
+ * @param ledger - Records the release (optional)
+ */
+export async function releaseFunds(
+  params: ReleaseFundsParams,
+  program: X402Program,
+  ledger?: Ledger
+): Promise<ReleaseFundsResult> {
+  try {
+    if (!params.transactionId) {
+      return failure('ValidationError', 'Transaction ID is required');
+    }
+
+    // Check if escrow exists
+    const exists = await program.escrowExists(params.transactionId);
+    if (!exists) {
+      return failure('AccountNotFound', 'Escrow not found');
+    }
+
+    const [escrowPDA] = program.pda.deriveEscrowPDA(params.transactionId);
+    const escrow = await program.getEscrowAccount(escrowPDA);
+    const status = parseEscrowStatus(escrow.status);
+
+    // Verify escrow is active
+    if (status !== 'Active') {
+      return failure(
+        'InvalidStatus',
+        `Cannot release escrow in ${status} status. Only Active escrows can be released.`
+      );
+    }
+
+    // Verify this wallet created the escrow
+    const agentPubkey = program.program.provider.publicKey!;
+    if (!escrow.agent.equals(agentPubkey)) {
+      return failure(
+        'Unauthorized',
+        `Escrow belongs to agent ${escrow.agent.toBase58()}. Only the agent who created the escrow can release funds.`
+      );
+    }
+
+    if (params.dryRun) {
+      return {
+        ...simulated(await program.releaseFunds(params.transactionId, { dryRun: true }), 'Release would fail', RELEASE_ERRORS),
+        transactionId: params.transactionId,
+        escrowAddress: escrowPDA.toBase58(),
+        api: escrow.api.toBase58(),
+        amountReleased: lamportsToSol(Number(escrow.amount)),
+        currency: 'SOL',
+      };
+    }
+
+    const signature = await program.releaseFunds(params.transactionId);
+
+    // Report the amount from the FundsReleased event, falling back to
+    // the escrowed amount if the transaction isn't queryable yet
+    let amountReleased = escrow.amount;
+    const txEvents = await program.events.decodeTransaction(signature).catch(() => null);
+    const released = txEvents?.events.find((e) => e.name === 'FundsReleased');
+    if (released?.name === 'FundsReleased') {
+      amountReleased = released.data.amount;
+    }
+
+    ledger?.record({
+      type: 'funds_released',
+      transactionId: params.transactionId,
+      signature,
+      amount: lamportsToSol(Number(amountReleased)),
+    });
+
+    return {
+      success: true,
+      transactionId: params.transactionId,
+      escrowAddress: escrowPDA.toBase58(),
+      api: escrow.api.toBase58(),
+      amountReleased: lamportsToSol(Number(amountReleased)),
+      currency: 'SOL',
+      status: 'Released',
+      signature,
+    };
+  } catch (error: any) {
+    return toolError(error, 'Failed to release funds', RELEASE_ERRORS);
+  }
+}
+
+const RELEASE_ERRORS = {
+  InvalidStatus: 'Escrow is no longer Active. It may have been released or disputed already.',
+  Unauthorized: 'Only the agent who created the escrow can release funds before it expires.',
+};
+
+export interface GetWorkAgreementParams {
+  escrowAddress?: string;
+  transactionId?: string;
+}
+
+export interface GetWorkAgreementResult extends ToolErrorFields {
+  success: boolean;
+  escrowAddress?: string;
+  query?: string;
+  requiredFields?: number;
+  minRecords?: number;
+  maxAgeDays?: number;
+  minQualityScore?: number; // 0-100
+  createdAt?: number;
+}
+
+/**
+ * Get the work agreement (expected data criteria) attached to an escrow
+ */
+export async function getWorkAgreement(
+  params: GetWorkAgreementParams,
+  program: X402Program
+): Promise<GetWorkAgreementResult> {
+  try {
+    let escrowPDA: PublicKey;
+
+    if (params.escrowAddress) {
+      escrowPDA = new PublicKey(params.escrowAddress);
+    } else if (params.transactionId) {
+      [escrowPDA] = program.pda.deriveEscrowPDA(params.transactionId);
+    } else {
+      return failure('ValidationError', 'Either escrowAddress or transactionId is required');
+    }
+
+    const [workAgreementPDA] = program.pda.deriveWorkAgreementPDA(escrowPDA);
+    const agreement = await program.getWorkAgreementAccount(workAgreementPDA);
+
+    if (!agreement) {
+      // The PDA seeds are unconfirmed, so this can't be read as "no agreement"
+      return failure(
+        'AccountNotFound',
+        `Could not locate a work agreement account for this escrow at ${workAgreementPDA.toBase58()}`,
+        { escrowAddress: escrowPDA.toBase58() }
+      );
+    }
+
+    return {
+      success: true,
+      escrowAddress: agreement.escrow.toBase58(),
+      query: agreement.query,
+      requiredFields: Number(agreement.requiredFields),
+      minRecords: Number(agreement.minRecords),
+      maxAgeDays: Number(agreement.maxAgeDays),
+      minQualityScore: Number(agreement.minQualityScore),
+      createdAt: Number(agreement.createdAt),
+    };
+  } catch (error: any) {
+    return toolError(error, 'Failed to fetch work agreement');
+  }
+}
@@ -0,0 +1,36 @@
+import { toolError, ToolErrorFields } from '../errors.js';
+import { EndpointHealth, RpcPool } from '../solana/rpc.js';
+
+export interface ServerHealthParams {
+  check?: boolean; // Health-check every endpoint before reporting (default: false)
+}
+
+export interface ServerHealthResult extends ToolErrorFields {
+  success: boolean;
+  healthy?: boolean; // Both pools have a healthy endpoint
+  rpc?: {
+    read: EndpointHealth[]; // Endpoints for reads and simulations
+    send: EndpointHealth[]; // Endpoints for sendTransaction
+  };
+}
+
+/**
+ * Get RPC endpoint health: failures, cooldowns, latency and slot per endpoint
+ */
+export async function serverHealth(params: ServerHealthParams, rpc: RpcPool): Promise<ServerHealthResult> {
+  try {
+    if (params.check) {
+      await rpc.check();
+    }
+
+    const health = rpc.health();
+
+    return {
+      success: true,
+      healthy: health.read.some((endpoint) => endpoint.healthy) && health.send.some((endpoint) => endpoint.healthy),
+      rpc: health,
+    };
+  } catch (error: any) {
+    return toolError(error, 'Failed to get server health');
+  }
+}
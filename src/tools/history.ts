@@ -0,0 +1,176 @@
+import { PublicKey } from '@solana/web3.js';
+import { X402Program } from '../solana/anchor.js';
+import { X402Event } from '../solana/events.js';
+import { lamportsToSol } from '../solana/transactions.js';
+import { failure, toolError, ToolErrorFields } from '../errors.js';
+
+export interface GetEscrowHistoryParams {
+  transactionId?: string;
+  escrowAddress?: string;
+  limit?: number; // Max transactions to scan (default: 100)
+}
+
+export interface EscrowHistoryEntry {
+  event: 'EscrowInitialized' | 'DisputeMarked' | 'DisputeResolved' | 'FundsReleased';
+  signature: string;
+  slot: number;
+  blockTime?: number; // Unix timestamp
+  agent?: string;
+  api?: string;
+  amount?: number; // In SOL
+  expiresAt?: number;
+  qualityScore?: number;
+  refundPercentage?: number;
+  refundAmount?: number; // In SOL
+  paymentAmount?: number; // In SOL
+  verifier?: string;
+}
+
+export interface GetEscrowHistoryResult extends ToolErrorFields {
+  success: boolean;
+  transactionId?: string;
+  escrowAddress?: string;
+  finalStatus?: 'Active' | 'Disputed' | 'Resolved' | 'Released';
+  timeline?: EscrowHistoryEntry[];
+  amount?: number; // In SOL
+  refundAmount?: number; // In SOL
+  paymentAmount?: number; // In SOL
+  verifier?: string;
+  failedTransactions?: string[];
+}
+
+/**
+ * Get the on-chain event timeline for an escrow
+ *
+ * Decodes EscrowInitialized, DisputeMarked, DisputeResolved and
+ * FundsReleased events from the escrow's confirmed transactions.
+ * Works after the escrow account has been closed.
+ */
+export async function getEscrowHistory(
+  params: GetEscrowHistoryParams,
+  program: X402Program
+): Promise<GetEscrowHistoryResult> {
+  try {
+    let escrowPDA: PublicKey;
+
+    if (params.escrowAddress) {
+      escrowPDA = new PublicKey(params.escrowAddress);
+    } else if (params.transactionId) {
+      [escrowPDA] = program.pda.deriveEscrowPDA(params.transactionId);
+    } else {
+      return failure('ValidationError', 'Either escrowAddress or transactionId is required');
+    }
+
+    const history = await program.events.getAccountHistory(escrowPDA, { limit: params.limit });
+
+    const timeline: EscrowHistoryEntry[] = [];
+    const failedTransactions: string[] = [];
+
+    for (const tx of history) {
+      if (tx.failed) {
+        failedTransactions.push(tx.signature);
+        continue;
+      }
+
+      for (const event of tx.events) {
+        // Program logs can carry events for other escrows in the same transaction
+        if (!event.data.escrow.equals(escrowPDA)) {
+          continue;
+        }
+        timeline.push(toHistoryEntry(event, tx.signature, tx.slot, tx.blockTime));
+      }
+    }
+
+    if (timeline.length === 0) {
+      return failure('AccountNotFound', 'No escrow events found for this escrow');
+    }
+
+    const result: GetEscrowHistoryResult = {
+      success: true,
+      escrowAddress: escrowPDA.toBase58(),
+      timeline,
+      failedTransactions: failedTransactions.length > 0 ? failedTransactions : undefined,
+    };
+
+    // Summarize the outcome from the events
+    for (const tx of history) {
+      for (const event of tx.events) {
+        if (!event.data.escrow.equals(escrowPDA)) continue;
+
+        result.transactionId = event.data.transactionId;
+
+        switch (event.name) {
+          case 'EscrowInitialized':
+            result.finalStatus = 'Active';
+            result.amount = lamportsToSol(Number(event.data.amount));
+            break;
+          case 'DisputeMarked':
+            result.finalStatus = 'Disputed';
+            break;
+          case 'DisputeResolved':
+            result.finalStatus = 'Resolved';
+            result.refundAmount = lamportsToSol(Number(event.data.refundAmount));
+            result.paymentAmount = lamportsToSol(Number(event.data.paymentAmount));
+            result.verifier = event.data.verifier.toBase58();
+            break;
+          case 'FundsReleased':
+            result.finalStatus = 'Released';
+            result.refundAmount = 0;
+            result.paymentAmount = lamportsToSol(Number(event.data.amount));
+            break;
+        }
+      }
+    }
+
+    return result;
+  } catch (error: any) {
+    return toolError(error, 'Failed to fetch escrow history');
+  }
+}
+
+function toHistoryEntry(
+  event: X402Event,
+  signature: string,
+  slot: number,
+  blockTime: number | null
+): EscrowHistoryEntry {
+  const base = {
+    event: event.name,
+    signature,
+    slot,
+    blockTime: blockTime ?? undefined,
+  };
+
+  switch (event.name) {
+    case 'EscrowInitialized':
+      return {
+        ...base,
+        agent: event.data.agent.toBase58(),
+        api: event.data.api.toBase58(),
+        amount: lamportsToSol(Number(event.data.amount)),
+        expiresAt: Number(event.data.expiresAt),
+      };
+    case 'DisputeMarked':
+      return {
+        ...base,
+        agent: event.data.agent.toBase58(),
+        blockTime: base.blockTime ?? Number(event.data.timestamp),
+      };
+    case 'DisputeResolved':
+      return {
+        ...base,
+        qualityScore: event.data.qualityScore,
+        refundPercentage: event.data.refundPercentage,
+        refundAmount: lamportsToSol(Number(event.data.refundAmount)),
+        paymentAmount: lamportsToSol(Number(event.data.paymentAmount)),
+        verifier: event.data.verifier.toBase58(),
+      };
+    case 'FundsReleased':
+      return {
+        ...base,
+        api: event.data.api.toBase58(),
+        amount: lamportsToSol(Number(event.data.amount)),
+        blockTime: base.blockTime ?? Number(event.data.timestamp),
+      };
+  }
+}
@@ -7,6 +7,12 @@
 // Escrow tools
 export * from './escrow.js';
 
+// Escrow event history tools
+export * from './history.js';
+
+// Local ledger queries
+export * from './ledger.js';
+
 // Quality assessment tools
 export * from './quality.js';
 
@@ -16,5 +22,29 @@ export * from './dispute.js';
 // Reputation tools
 export * from './reputation.js';
 
+// Rate limit and provider penalty tools
+export * from './limits.js';
+
+// Spending policy tools
+export * from './budget.js';
+
+// Spending reports
+export * from './report.js';
+
+// Server and RPC endpoint health
+export * from './health.js';
+
+// Agent identities
+export * from './agents.js';
+
+// Human approval tools
+export * from './approvals.js';
+
+// Dry-run results of state-changing tools
+export * from './simulation.js';
+
 // Unified workflow tools
 export * from './unified.js';
+
+// Tool registry (schemas and dispatch)
+export * from './registry.js';
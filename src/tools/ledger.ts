@@ -0,0 +1,68 @@
+import { X402Program } from '../solana/anchor.js';
+import { Ledger, LedgerEntry, LedgerEscrowStatus } from '../ledger/index.js';
+import { toolError, ToolErrorFields } from '../errors.js';
+
+export interface QueryLedgerParams {
+  transactionId?: string;
+  apiProvider?: string; // Only escrows paying this provider
+  status?: LedgerEscrowStatus[]; // Any of these statuses
+  from?: number; // Created at or after (Unix timestamp)
+  to?: number; // Created before (Unix timestamp)
+  includeResponses?: boolean; // Include stored API responses and dispute evidence (default: false)
+  offset?: number; // Pagination offset (default: 0)
+  limit?: number; // Page size (default: 20, max: 100)
+}
+
+export interface QueryLedgerResult extends ToolErrorFields {
+  success: boolean;
+  entries?: LedgerEntry[]; // Newest first
+  total?: number; // Matches before pagination
+  nextOffset?: number; // Set if more results remain
+}
+
+/**
+ * Query the local ledger of escrows this agent created
+ *
+ * Unlike list_escrows, the ledger keeps settled escrows (whose accounts
+ * are closed) together with the API call, quality assessment, dispute
+ * evidence and every transaction signature.
+ */
+export async function queryLedger(
+  params: QueryLedgerParams,
+  ledger: Ledger,
+  program: X402Program
+): Promise<QueryLedgerResult> {
+  try {
+    const offset = params.offset || 0;
+    const limit = Math.min(params.limit || 20, 100);
+
+    const { entries, total } = ledger.query({
+      transactionId: params.transactionId,
+      agent: program.program.provider.publicKey!.toBase58(),
+      provider: params.apiProvider,
+      status: params.status,
+      from: params.from,
+      to: params.to,
+      offset,
+      limit,
+    });
+
+    return {
+      success: true,
+      entries: params.includeResponses ? entries : entries.map(withoutPayloads),
+      total,
+      nextOffset: offset + entries.length < total ? offset + entries.length : undefined,
+    };
+  } catch (error: any) {
+    return toolError(error, 'Failed to query ledger');
+  }
+}
+
+// API responses and evidence can be large; leave them out unless asked
+function withoutPayloads(entry: LedgerEntry): LedgerEntry {
+  return {
+    ...entry,
+    apiCall: entry.apiCall && { ...entry.apiCall, response: undefined },
+    dispute: entry.dispute && { ...entry.dispute, evidence: undefined },
+  };
+}
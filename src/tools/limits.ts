@@ -0,0 +1,142 @@
+import { PublicKey } from '@solana/web3.js';
+import { X402Program } from '../solana/anchor.js';
+import { lamportsToSol, parseVerificationLevel } from '../solana/transactions.js';
+import { failure, toolError, ToolErrorFields } from '../errors.js';
+
+export type VerificationLevel = 'Basic' | 'Staked' | 'Social' | 'KYC';
+
+const HOUR_SECONDS = 3600;
+const DAY_SECONDS = 86_400;
+
+export interface GetRateLimitStatusParams {
+  entity?: string; // Entity wallet address (defaults to agent wallet)
+}
+
+export interface GetRateLimitStatusResult extends ToolErrorFields {
+  success: boolean;
+  entity?: string;
+  initialized?: boolean;
+  verificationLevel?: VerificationLevel;
+  transactionsLastHour?: number;
+  transactionsLastDay?: number;
+  disputesLastDay?: number;
+  hourResetsAt?: number; // Unix timestamp
+  dayResetsAt?: number; // Unix timestamp
+}
+
+export interface GetProviderPenaltiesParams {
+  apiProvider: string; // API provider wallet address
+}
+
+export interface GetProviderPenaltiesResult extends ToolErrorFields {
+  success: boolean;
+  apiProvider?: string;
+  strikeCount?: number;
+  suspended?: boolean;
+  suspensionEnd?: number; // Unix timestamp
+  totalRefundsIssued?: number; // In SOL
+  poorQualityCount?: number;
+  lastUpdated?: number; // Unix timestamp
+}
+
+/**
+ * Get rate limit status for an entity
+ *
+ * Windows that have elapsed since the last on-chain check are
+ * reported as reset, matching how the program counts them.
+ */
+export async function getRateLimitStatus(
+  params: GetRateLimitStatusParams,
+  program: X402Program
+): Promise<GetRateLimitStatusResult> {
+  try {
+    const entity = params.entity ? new PublicKey(params.entity) : program.program.provider.publicKey!;
+
+    const [rateLimiterPDA] = program.pda.deriveRateLimiterPDA(entity);
+    const rateLimiter = await program.getRateLimiterAccount(rateLimiterPDA);
+
+    if (!rateLimiter) {
+      // No rate limiter yet, entity starts at Basic with empty windows
+      return {
+        success: true,
+        entity: entity.toBase58(),
+        initialized: false,
+        verificationLevel: 'Basic',
+        transactionsLastHour: 0,
+        transactionsLastDay: 0,
+        disputesLastDay: 0,
+      };
+    }
+
+    const verificationLevel = parseVerificationLevel(rateLimiter.verificationLevel);
+    const now = Math.floor(Date.now() / 1000);
+
+    const lastHourCheck = Number(rateLimiter.lastHourCheck);
+    const lastDayCheck = Number(rateLimiter.lastDayCheck);
+    const hourExpired = now - lastHourCheck >= HOUR_SECONDS;
+    const dayExpired = now - lastDayCheck >= DAY_SECONDS;
+
+    const transactionsLastHour = hourExpired ? 0 : Number(rateLimiter.transactionsLastHour);
+    const transactionsLastDay = dayExpired ? 0 : Number(rateLimiter.transactionsLastDay);
+    const disputesLastDay = dayExpired ? 0 : Number(rateLimiter.disputesLastDay);
+
+    return {
+      success: true,
+      entity: entity.toBase58(),
+      initialized: true,
+      verificationLevel,
+      transactionsLastHour,
+      transactionsLastDay,
+      disputesLastDay,
+      hourResetsAt: hourExpired ? undefined : lastHourCheck + HOUR_SECONDS,
+      dayResetsAt: dayExpired ? undefined : lastDayCheck + DAY_SECONDS,
+    };
+  } catch (error: any) {
+    return toolError(error, 'Failed to fetch rate limit status');
+  }
+}
+
+/**
+ * Get penalty record for an API provider
+ *
+ * A suspension whose end time has passed is reported as lifted. A
+ * missing account fails with AccountNotFound rather than reporting a
+ * clean record, as the account's seeds are unconfirmed.
+ */
+export async function getProviderPenalties(
+  params: GetProviderPenaltiesParams,
+  program: X402Program
+): Promise<GetProviderPenaltiesResult> {
+  try {
+    const apiProviderPubkey = new PublicKey(params.apiProvider);
+
+    const [penaltiesPDA] = program.pda.deriveProviderPenaltiesPDA(apiProviderPubkey);
+    const penalties = await program.getProviderPenaltiesAccount(penaltiesPDA);
+
+    if (!penalties) {
+      // The PDA seeds are unconfirmed, so this can't be read as "no penalties"
+      return failure(
+        'AccountNotFound',
+        `Could not locate a penalties account for this provider at ${penaltiesPDA.toBase58()}`,
+        { apiProvider: apiProviderPubkey.toBase58() }
+      );
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const suspensionEnd = penalties.suspensionEnd !== null ? Number(penalties.suspensionEnd) : undefined;
+    const suspended = penalties.suspended && (suspensionEnd === undefined || suspensionEnd > now);
+
+    return {
+      success: true,
+      apiProvider: apiProviderPubkey.toBase58(),
+      strikeCount: Number(penalties.strikeCount),
+      suspended,
+      suspensionEnd: suspended ? suspensionEnd : undefined,
+      totalRefundsIssued: lamportsToSol(Number(penalties.totalRefundsIssued)),
+      poorQualityCount: Number(penalties.poorQualityCount),
+      lastUpdated: Number(penalties.lastUpdated),
+    };
+  } catch (error: any) {
+    return toolError(error, 'Failed to fetch provider penalties');
+  }
+}
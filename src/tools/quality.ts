@@ -1,11 +1,12 @@
-import { calculateRefundAmount } from '../solana/transactions.js';
+import { calculateRefundAmount, lamportsToSol, solToLamports } from '../solana/transactions.js';
+import { failure, toolError, ToolErrorFields } from '../errors.js';
 
 export interface AssessDataQualityParams {
   apiResponse: Record<string, any>; // API response JSON
   expectedCriteria: string[]; // Quality criteria to check
 }
 
-export interface AssessDataQualityResult {
+export interface AssessDataQualityResult extends ToolErrorFields {
   success: boolean;
   qualityScore?: number; // 0-100
   refundPercentage?: number; // 0-100
@@ -13,7 +14,6 @@ export interface AssessDataQualityResult {
   freshness?: number; // 0-100
   schemaCompliance?: number; // 0-100
   rationale?: string;
-  error?: string;
 }
 
 export interface EstimateRefundParams {
@@ -21,12 +21,11 @@ export interface EstimateRefundParams {
   qualityScore: number; // 0-100
 }
 
-export interface EstimateRefundResult {
+export interface EstimateRefundResult extends ToolErrorFields {
   success: boolean;
   refundAmount?: number; // In SOL
   refundPercentage?: number; // 0-100
   paymentAmount?: number; // In SOL
-  error?: string;
 }
 
 /**
@@ -154,10 +153,7 @@ export async function assessDataQuality(
       rationale,
     };
   } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Failed to assess data quality',
-    };
+    return toolError(error, 'Failed to assess data quality');
   }
 }
 
@@ -169,7 +165,7 @@ export async function estimateRefund(params: EstimateRefundParams): Promise<Esti
     const { amount, qualityScore } = params;
 
     if (qualityScore < 0 || qualityScore > 100) {
-      return { success: false, error: 'Quality score must be between 0 and 100' };
+      return failure('InvalidQualityScore', 'Quality score must be between 0 and 100');
     }
 
     // Calculate refund percentage (inverse of quality)
@@ -185,21 +181,18 @@ export async function estimateRefund(params: EstimateRefundParams): Promise<Esti
       refundPercentage = 50 + Math.round((50 - qualityScore));
     }
 
-    const amountLamports = amount * 1_000_000_000;
+    const amountLamports = solToLamports(amount);
     const refundLamports = calculateRefundAmount(amountLamports, refundPercentage);
     const paymentLamports = amountLamports - refundLamports;
 
     return {
       success: true,
-      refundAmount: refundLamports / 1_000_000_000,
+      refundAmount: lamportsToSol(refundLamports),
       refundPercentage,
-      paymentAmount: paymentLamports / 1_000_000_000,
+      paymentAmount: lamportsToSol(paymentLamports),
     };
   } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Failed to estimate refund',
-    };
+    return toolError(error, 'Failed to estimate refund');
   }
 }
 
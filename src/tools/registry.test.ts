@@ -0,0 +1,114 @@
+import { describe, expect, it } from '@jest/globals';
+import { Keypair } from '@solana/web3.js';
+import { callTool, getTool, listToolDefinitions, TOOL_REGISTRY, ToolContext, validateToolArguments } from './registry.js';
+
+const wallet = Keypair.generate().publicKey.toBase58();
+
+function definition(name: string) {
+  return listToolDefinitions().find((tool) => tool.name === name)!;
+}
+
+function validate(name: string, args: unknown) {
+  return validateToolArguments(getTool(name)!, args);
+}
+
+describe('tool definitions', () => {
+  it('lists every registered tool once', () => {
+    const names = listToolDefinitions().map((tool) => tool.name);
+
+    expect(names).toEqual(TOOL_REGISTRY.map((tool) => tool.name));
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it('marks exactly the required arguments as required', () => {
+    expect(definition('create_escrow').inputSchema.required).toEqual(['api', 'amount']);
+    expect(definition('file_dispute').inputSchema.required).toEqual([
+      'transactionId',
+      'qualityScore',
+      'refundPercentage',
+      'evidence',
+    ]);
+    expect(definition('approve_action').inputSchema.required).toEqual(['actionId', 'approverToken']);
+    expect(definition('list_escrows').inputSchema.required).toBeUndefined();
+  });
+
+  it('advertises coerced arguments with their target types', () => {
+    const { properties } = definition('create_escrow').inputSchema as any;
+
+    expect(properties.api.type).toBe('string');
+    expect(properties.amount.type).toBe('number');
+    expect(properties.dryRun.type).toBe('boolean');
+  });
+
+  it('adds the agent selector without advertising additionalProperties', () => {
+    for (const tool of listToolDefinitions()) {
+      expect(tool.inputSchema.type).toBe('object');
+      expect(tool.inputSchema.properties).toHaveProperty('agent');
+      expect(tool.inputSchema).not.toHaveProperty('additionalProperties');
+      expect(tool.inputSchema).not.toHaveProperty('$schema');
+    }
+  });
+});
+
+describe('validateToolArguments', () => {
+  it('coerces scalars sent as strings', () => {
+    expect(validate('create_escrow', { api: wallet, amount: '0.5', timeLock: '600', dryRun: 'true' })).toEqual({
+      success: true,
+      params: { api: wallet, amount: 0.5, timeLock: 600, dryRun: true },
+    });
+  });
+
+  it('accepts a single status where a list is expected', () => {
+    expect(validate('list_pending_actions', { status: 'approved' })).toEqual({
+      success: true,
+      params: { status: ['approved'] },
+    });
+    expect(validate('list_escrows', { status: 'Active' })).toMatchObject({
+      success: true,
+      params: { status: ['Active'] },
+    });
+  });
+
+  it('names every bad field', () => {
+    const result: any = validate('create_escrow', { api: 'not-a-key', amount: 'lots' });
+
+    expect(result).toMatchObject({ success: false, code: 'ValidationError', category: 'validation' });
+    expect(result.validationErrors.map((issue: any) => issue.field)).toEqual(['api', 'amount']);
+    expect(result.error).toContain('Invalid arguments for create_escrow');
+  });
+
+  it('rejects missing required arguments', () => {
+    const result: any = validate('verify_payment', {});
+
+    expect(result.success).toBe(false);
+    expect(result.validationErrors).toEqual([expect.objectContaining({ field: 'transactionId' })]);
+  });
+
+  it('strips unknown arguments', () => {
+    expect(validate('verify_payment', { transactionId: 'tx-1', extra: 1 })).toEqual({
+      success: true,
+      params: { transactionId: 'tx-1' },
+    });
+  });
+});
+
+describe('callTool', () => {
+  // Validation fails before the context is used
+  const context = {} as ToolContext;
+
+  it('fails for unknown tools', async () => {
+    await expect(callTool('no_such_tool', {}, context)).resolves.toMatchObject({
+      success: false,
+      code: 'ValidationError',
+      error: 'Unknown tool: no_such_tool',
+    });
+  });
+
+  it("doesn't run a tool with invalid arguments", async () => {
+    await expect(callTool('create_escrow', { amount: -1 }, context)).resolves.toMatchObject({
+      success: false,
+      code: 'ValidationError',
+      validationErrors: expect.any(Array),
+    });
+  });
+});
@@ -0,0 +1,654 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { PublicKey } from '@solana/web3.js';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { failure, ToolFailure } from '../errors.js';
+import { AgentIdentities, AgentIdentity } from '../identities/index.js';
+import { Ledger } from '../ledger/index.js';
+import { PolicySet, Stake } from '../policy/index.js';
+import { X402Program } from '../solana/anchor.js';
+import { RpcPool } from '../solana/rpc.js';
+import { listAgents, ListAgentsParams } from './agents.js';
+import {
+  approveAction,
+  ApproveActionParams,
+  listPendingActions,
+  ListPendingActionsParams,
+} from './approvals.js';
+import { getBudgetStatus, GetBudgetStatusParams } from './budget.js';
+import {
+  DisputeResolutionConfig,
+  fileDispute,
+  FileDisputeParams,
+  resolveDispute,
+  ResolveDisputeParams,
+} from './dispute.js';
+import {
+  CheckEscrowParams,
+  checkEscrowStatus,
+  createEscrow,
+  CreateEscrowParams,
+  getWorkAgreement,
+  GetWorkAgreementParams,
+  listEscrows,
+  ListEscrowsParams,
+  releaseFunds,
+  ReleaseFundsParams,
+  verifyPayment,
+  VerifyPaymentParams,
+} from './escrow.js';
+import { serverHealth, ServerHealthParams } from './health.js';
+import { getEscrowHistory, GetEscrowHistoryParams } from './history.js';
+import { queryLedger, QueryLedgerParams } from './ledger.js';
+import {
+  getProviderPenalties,
+  GetProviderPenaltiesParams,
+  getRateLimitStatus,
+  GetRateLimitStatusParams,
+} from './limits.js';
+import { assessDataQuality, AssessDataQualityParams, estimateRefund, EstimateRefundParams } from './quality.js';
+import { spendingReport, SpendingReportParams } from './report.js';
+import { getApiReputation, GetApiReputationParams } from './reputation.js';
+import { callApiWithEscrow, CallApiWithEscrowParams } from './unified.js';
+
+/**
+ * Declarative tool registry
+ *
+ * Each tool declares one zod schema. The schema produces the JSON Schema
+ * advertised in tools/list and validates (and coerces) arguments before
+ * the handler runs, so the advertised and accepted inputs can't drift.
+ * Field types of each schema are checked against the handler's Params
+ * type at compile time.
+ */
+
+/**
+ * Shared state passed to every tool handler
+ */
+export interface ToolContext {
+  program: X402Program;
+  resolution: DisputeResolutionConfig;
+  policy: PolicySet;
+  ledger: Ledger;
+  rpc: RpcPool;
+  confirm?: (message: string) => Promise<boolean | undefined>; // Ask the human in the client (undefined: no answer)
+  dryRun?: boolean; // Simulate every state-changing tool call (server-wide setting)
+  agent: AgentIdentity; // Identity the call acts as (program and policy are its own)
+  agents: AgentIdentity[]; // Identities the session can select with the agent argument
+  approverToken?: string; // Required by approve_action (APPROVER_TOKEN; unset disables it)
+}
+
+export interface RegisteredTool<P = any> {
+  name: string;
+  description: string;
+  schema: z.ZodType<Partial<P>, z.ZodTypeDef, unknown>; // Partial: zod marks every field optional without strictNullChecks
+  handler: (params: P, context: ToolContext) => Promise<any>;
+  stake?: (params: P, context: ToolContext) => Promise<Stake | undefined>; // Funds at stake, for approval thresholds
+  simulates?: boolean; // Takes a dryRun argument (state-changing tools)
+}
+
+export interface ValidationIssue {
+  field: string; // Dotted path of the bad argument ('(root)' for the whole object)
+  message: string;
+  code: string; // zod issue code
+}
+
+/**
+ * Declare a tool whose handler takes P
+ */
+export function defineTool<P>(tool: RegisteredTool<P>): RegisteredTool<P> {
+  return tool;
+}
+
+// Argument coercion: MCP clients (and models) sometimes send scalars as strings
+
+const number = (schema = z.number()) =>
+  z.preprocess(
+    (value) => (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value),
+    schema
+  );
+
+const boolean = () =>
+  z.preprocess((value) => (value === 'true' ? true : value === 'false' ? false : value), z.boolean());
+
+const stringList = () =>
+  z.preprocess(
+    (value) =>
+      typeof value === 'string'
+        ? value
+            .split(',')
+            .map((item) => item.trim())
+            .filter(Boolean)
+        : value,
+    z.array(z.string())
+  );
+
+const jsonObject = () =>
+  z.preprocess((value) => {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }, z.record(z.any()));
+
+const publicKey = () =>
+  z.string().refine((value) => {
+    try {
+      new PublicKey(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'Invalid Solana public key');
+
+const percentage = () => number(z.number().min(0).max(100));
+
+// Unix timestamp, or a date string such as 2025-01-31 or an ISO timestamp
+const timestamp = () =>
+  z.preprocess((value) => {
+    if (typeof value !== 'string' || value.trim() === '') return value;
+    if (!isNaN(Number(value))) return Number(value);
+    const ms = Date.parse(value);
+    return isNaN(ms) ? value : Math.floor(ms / 1000);
+  }, z.number());
+
+// Every state-changing tool can simulate instead of sending
+const dryRun = () =>
+  boolean()
+    .optional()
+    .describe(
+      'Simulate without sending: returns compute units, fee estimate, program logs and any program error (default: false, or the server setting)'
+    );
+
+const escrowStatus = z.enum(['Active', 'Disputed', 'Resolved', 'Released']);
+
+// Either escrowAddress or transactionId identifies an escrow
+const escrowReference = {
+  escrowAddress: publicKey().optional().describe('Escrow PDA address (either this or transactionId required)'),
+  transactionId: z.string().min(1).optional().describe('Transaction ID (either this or escrowAddress required)'),
+};
+
+const requireEscrowReference = (params: { escrowAddress?: string; transactionId?: string }) =>
+  Boolean(params.escrowAddress || params.transactionId);
+
+const escrowReferenceMessage = {
+  message: 'Either escrowAddress or transactionId is required',
+  path: ['transactionId'],
+};
+
+// Amount a payment tool would lock up (escrows hold native SOL)
+const paymentStake = async (amount: number): Promise<Stake> => ({ amount, currency: 'SOL' });
+
+// Amount held by the escrow a settlement tool acts on (undefined if it can't be read; the tool reports why)
+const escrowStake = async (transactionId: string, { program }: ToolContext): Promise<Stake | undefined> => {
+  const escrow = await checkEscrowStatus({ transactionId }, program);
+  return escrow.success ? { amount: escrow.amount!, currency: escrow.currency!, transactionId } : undefined;
+};
+
+export const TOOL_REGISTRY: RegisteredTool[] = [
+  defineTool<CreateEscrowParams>({
+    name: 'create_escrow',
+    description:
+      'Create a payment escrow for an API call with quality guarantee. Funds are locked until dispute resolution or time lock expiry.',
+    schema: z.object({
+      api: publicKey().describe('API provider wallet address (Solana public key)'),
+      amount: number().describe('Payment amount in SOL (minimum 0.001 SOL)'),
+      timeLock: number()
+        .optional()
+        .describe(
+          "Escrow expiry in seconds (default: the provider's trust tier, else 3600 = 1 hour; max: 2592000 = 30 days)"
+        ),
+      dryRun: dryRun(),
+    }),
+    handler: (params, { program, policy, ledger }) => createEscrow(params, program, policy, ledger),
+    stake: (params) => paymentStake(params.amount),
+    simulates: true,
+  }),
+  defineTool<CheckEscrowParams>({
+    name: 'check_escrow_status',
+    description: 'Check the status and details of an escrow account.',
+    schema: z.object(escrowReference).refine(requireEscrowReference, escrowReferenceMessage),
+    handler: (params, { program }) => checkEscrowStatus(params, program),
+  }),
+  defineTool<ListEscrowsParams>({
+    name: 'list_escrows',
+    description:
+      'List escrows created by this agent (or another agent), newest first. Filter by status, provider and expiry window; paginate with offset/limit.',
+    schema: z.object({
+      agent: publicKey()
+        .optional()
+        .describe("Agent wallet address, or an agent identity's name (default: the agent identity in use)"),
+      apiProvider: publicKey().optional().describe('Only escrows paying this API provider'),
+      status: z
+        .preprocess((value) => (typeof value === 'string' ? [value] : value), z.array(escrowStatus))
+        .optional()
+        .describe('Only escrows in any of these statuses'),
+      expiresAfter: number().optional().describe('Only escrows expiring after this Unix timestamp'),
+      expiresBefore: number().optional().describe('Only escrows expiring before this Unix timestamp'),
+      offset: number().optional().describe('Pagination offset (default: 0)'),
+      limit: number().optional().describe('Page size (default: 20, max: 100)'),
+    }),
+    handler: (params, { program }) => listEscrows(params, program),
+  }),
+  defineTool<QueryLedgerParams>({
+    name: 'query_ledger',
+    description:
+      "Query the server's local ledger of escrows this agent created, including settled ones: API call, quality assessment, dispute, resolution and every transaction signature. Filter by provider, status and creation date.",
+    schema: z.object({
+      transactionId: z.string().min(1).optional().describe('Only this escrow'),
+      apiProvider: publicKey().optional().describe('Only escrows paying this API provider'),
+      status: z
+        .preprocess((value) => (typeof value === 'string' ? [value] : value), z.array(escrowStatus))
+        .optional()
+        .describe('Only escrows in any of these statuses'),
+      from: timestamp().optional().describe('Only escrows created at or after this time (Unix timestamp or ISO date)'),
+      to: timestamp().optional().describe('Only escrows created before this time (Unix timestamp or ISO date)'),
+      includeResponses: boolean()
+        .optional()
+        .describe('Include stored API responses and dispute evidence (default: false)'),
+      offset: number().optional().describe('Pagination offset (default: 0)'),
+      limit: number().optional().describe('Page size (default: 20, max: 100)'),
+    }),
+    handler: (params, { ledger, program }) => queryLedger(params, ledger, program),
+  }),
+  defineTool<GetEscrowHistoryParams>({
+    name: 'get_escrow_history',
+    description:
+      'Get the ordered on-chain event timeline for an escrow (created, disputed, resolved, released), including the actual refund/payment split and the resolving verifier.',
+    schema: z
+      .object({
+        ...escrowReference,
+        limit: number().optional().describe('Maximum number of transactions to scan (default: 100)'),
+      })
+      .refine(requireEscrowReference, escrowReferenceMessage),
+    handler: (params, { program }) => getEscrowHistory(params, program),
+  }),
+  defineTool<VerifyPaymentParams>({
+    name: 'verify_payment',
+    description: 'Verify that payment was received and escrow is active.',
+    schema: z.object({
+      transactionId: z.string().min(1).describe('Transaction ID of the escrow'),
+    }),
+    handler: (params, { program }) => verifyPayment(params, program),
+  }),
+  defineTool<AssessDataQualityParams>({
+    name: 'assess_data_quality',
+    description:
+      'Assess the quality of API response data. Returns quality score (0-100) and recommended refund percentage.',
+    schema: z.object({
+      apiResponse: jsonObject().describe('API response JSON to assess'),
+      expectedCriteria: stringList().describe(
+        'Expected fields or criteria to check (e.g. ["data.name", "data.price"])'
+      ),
+    }),
+    handler: (params) => assessDataQuality(params),
+  }),
+  defineTool<EstimateRefundParams>({
+    name: 'estimate_refund',
+    description: 'Estimate refund amount based on quality score.',
+    schema: z.object({
+      amount: number().describe('Original payment amount in SOL'),
+      qualityScore: percentage().describe('Quality score (0-100)'),
+    }),
+    handler: (params) => estimateRefund(params),
+  }),
+  defineTool<FileDisputeParams>({
+    name: 'file_dispute',
+    description:
+      'File a dispute for poor quality API data. Marks escrow as disputed on-chain and initiates resolution process.',
+    schema: z.object({
+      transactionId: z.string().min(1).describe('Transaction ID of the escrow to dispute'),
+      qualityScore: percentage().describe('Quality score assessment (0-100)'),
+      refundPercentage: percentage().describe('Requested refund percentage (0-100)'),
+      evidence: jsonObject().describe('Evidence supporting the dispute (API response, assessment details, etc.)'),
+      dryRun: dryRun(),
+    }),
+    handler: (params, { program, ledger }) => fileDispute(params, program, ledger),
+    stake: (params, context) => escrowStake(params.transactionId, context),
+    simulates: true,
+  }),
+  defineTool<ResolveDisputeParams>({
+    name: 'resolve_dispute',
+    description:
+      'Resolve a disputed escrow and settle the refund/payment split on-chain. The verifier strategy submits evidence to the verifier oracle and checks its Ed25519 signature; the switchboard strategy submits the assessment against a Switchboard function attestation.',
+    schema: z.object({
+      transactionId: z.string().min(1).describe('Transaction ID of the disputed escrow'),
+      strategy: z
+        .enum(['verifier', 'switchboard'])
+        .optional()
+        .describe('Resolution strategy (default: server setting)'),
+      evidence: jsonObject()
+        .optional()
+        .describe('Evidence for the verifier (apiUrl, apiResponse, expectedCriteria, etc.)'),
+      qualityScore: percentage()
+        .optional()
+        .describe('Agent quality assessment (0-100, required for switchboard strategy)'),
+      refundPercentage: percentage().optional().describe('Requested refund percentage (0-100)'),
+      switchboardFunction: publicKey()
+        .optional()
+        .describe('Switchboard function account (switchboard strategy, default: server setting)'),
+      dryRun: dryRun(),
+    }),
+    handler: (params, { program, resolution, ledger }) => resolveDispute(params, program, resolution, ledger),
+    stake: (params, context) => escrowStake(params.transactionId, context),
+    simulates: true,
+  }),
+  defineTool<ReleaseFundsParams>({
+    name: 'release_funds',
+    description:
+      'Release escrowed funds to the API provider after receiving good data (happy path). Only Active escrows created by this agent can be released.',
+    schema: z.object({
+      transactionId: z.string().min(1).describe('Transaction ID of the escrow to release'),
+      dryRun: dryRun(),
+    }),
+    handler: (params, { program, ledger }) => releaseFunds(params, program, ledger),
+    stake: (params, context) => escrowStake(params.transactionId, context),
+    simulates: true,
+  }),
+  defineTool<GetApiReputationParams>({
+    name: 'get_api_reputation',
+    description:
+      'Get reputation score and transaction history for an API provider. Helps decide whether to trust an API.',
+    schema: z.object({
+      apiProvider: publicKey().describe('API provider wallet address'),
+    }),
+    handler: (params, { program }) => getApiReputation(params, program),
+  }),
+  defineTool<GetRateLimitStatusParams>({
+    name: 'get_rate_limit_status',
+    description:
+      'Get on-chain rate limit status for an entity: verification level and transactions and disputes in the current hourly/daily windows.',
+    schema: z.object({
+      entity: publicKey().optional().describe('Entity wallet address (default: agent wallet)'),
+    }),
+    handler: (params, { program }) => getRateLimitStatus(params, program),
+  }),
+  defineTool<GetProviderPenaltiesParams>({
+    name: 'get_provider_penalties',
+    description:
+      'Get the penalty record for an API provider: strike count, suspension status, and refunds issued. Check before committing funds.',
+    schema: z.object({
+      apiProvider: publicKey().describe('API provider wallet address'),
+    }),
+    handler: (params, { program }) => getProviderPenalties(params, program),
+  }),
+  defineTool<GetBudgetStatusParams>({
+    name: 'get_budget_status',
+    description:
+      'Get remaining spending headroom under the spending policy: per-escrow caps, hourly/daily/monthly budgets, provider caps, wallet reserve, and the reason for the last denied payment. Pass amount to check a payment before making it.',
+    schema: z.object({
+      apiProvider: publicKey().optional().describe("Include this provider's caps and spending"),
+      amount: number(z.number().positive())
+        .optional()
+        .describe('Check whether a payment of this amount (in SOL) would be allowed'),
+    }),
+    handler: (params, { policy }) => getBudgetStatus(params, policy.spending),
+  }),
+  defineTool<SpendingReportParams>({
+    name: 'spending_report',
+    description:
+      'Report spending per API provider (and optionally per day, week or month): totals escrowed, locked, released, refunded and disputed-pending, average quality score and dispute win rate. Built from the local ledger and on-chain escrow data; format csv adds a CSV export.',
+    schema: z.object({
+      apiProvider: publicKey().optional().describe('Only escrows paying this API provider'),
+      from: timestamp().optional().describe('Only escrows created at or after this time (Unix timestamp or ISO date)'),
+      to: timestamp().optional().describe('Only escrows created before this time (Unix timestamp or ISO date)'),
+      interval: z.enum(['day', 'week', 'month']).optional().describe('Also split rows by period (UTC)'),
+      format: z.enum(['json', 'csv']).optional().describe('csv adds the report as CSV text (default: json)'),
+    }),
+    handler: (params, { ledger, program }) => spendingReport(params, program, ledger),
+  }),
+  defineTool<ServerHealthParams>({
+    name: 'server_health',
+    description:
+      'Get the health of the RPC endpoints the server reads from and sends transactions through: healthy or cooling down after failures, recent errors, latency and slot. Use it when tool calls fail with RpcRateLimited, RpcError or NetworkError.',
+    schema: z.object({
+      check: boolean().optional().describe('Health-check every endpoint before reporting (default: false)'),
+    }),
+    handler: (params, { rpc }) => serverHealth(params, rpc),
+  }),
+  defineTool<ListAgentsParams>({
+    name: 'list_agents',
+    description:
+      'List the agent identities this session can act as: name, wallet, reputation account, balance and whether a budget policy applies. Pass a name as the agent argument of any tool to act as that identity; each has its own escrows, budget and reputation.',
+    schema: z.object({}),
+    handler: (params, { agent, agents }) => listAgents(params, agents, agent),
+  }),
+  defineTool<GetWorkAgreementParams>({
+    name: 'get_work_agreement',
+    description: 'Get the work agreement (query and data quality criteria) attached to an escrow.',
+    schema: z.object(escrowReference).refine(requireEscrowReference, escrowReferenceMessage),
+    handler: (params, { program }) => getWorkAgreement(params, program),
+  }),
+  defineTool<CallApiWithEscrowParams>({
+    name: 'call_api_with_escrow',
+    description:
+      'Unified workflow: Create escrow, call API, assess quality, and auto-dispute or auto-release. This is the recommended tool for protected API calls.',
+    schema: z.object({
+      apiUrl: z.string().url().describe('API endpoint URL to call'),
+      apiProvider: publicKey().describe('API provider wallet address'),
+      amount: number().describe('Payment amount in SOL'),
+      expectedCriteria: stringList().optional().describe('Expected fields in API response'),
+      timeLock: number().optional().describe("Escrow expiry in seconds (default: the provider's trust tier, else 3600)"),
+      autoDispute: boolean().optional().describe('Automatically file dispute if quality is low (default: true)'),
+      qualityThreshold: percentage()
+        .optional()
+        .describe("Quality score threshold for auto-dispute and auto-release (default: the provider's trust tier, else 50)"),
+      autoRelease: boolean()
+        .optional()
+        .describe('Automatically release funds if quality meets the threshold (default: false)'),
+      dryRun: boolean()
+        .optional()
+        .describe(
+          'Run the checks and simulate the escrow without paying or calling the API: returns compute units, fee estimate, program logs and any program error (default: false, or the server setting)'
+        ),
+    }),
+    handler: (params, { program, policy, ledger }) => callApiWithEscrow(params, program, policy, ledger),
+    stake: (params) => paymentStake(params.amount),
+    simulates: true,
+  }),
+  defineTool<ListPendingActionsParams>({
+    name: 'list_pending_actions',
+    description:
+      'List fund-moving actions parked for human approval because they exceeded the approval threshold, with their arguments, amount at stake and expiry.',
+    schema: z.object({
+      status: z
+        .preprocess(
+          (value) => (typeof value === 'string' ? [value] : value),
+          z.array(z.enum(['pending', 'approved', 'rejected', 'expired']))
+        )
+        .optional()
+        .describe('Only actions with any of these statuses (default: pending)'),
+    }),
+    handler: (params, { policy }) => listPendingActions(params, policy.approvals),
+  }),
+  defineTool<ApproveActionParams>({
+    name: 'approve_action',
+    description:
+      'Approve (and run) or reject an action parked for human approval. Needs the approver token, which only a human approver has: ask them for it and never guess it.',
+    schema: z.object({
+      actionId: z.string().min(1).describe('ID of the pending action (from list_pending_actions)'),
+      approverToken: z.string().min(1).describe('Approver token given by the human approving the action'),
+      approve: boolean().optional().describe('false rejects the action (default: true)'),
+      reason: z.string().optional().describe('Reason recorded with the decision'),
+    }),
+    handler: (params, context) =>
+      approveAction(
+        params,
+        context.policy.approvals,
+        (action) => getTool(action.tool)!.handler(action.params, context),
+        context.approverToken
+      ),
+  }),
+];
+
+const toolsByName = new Map(TOOL_REGISTRY.map((tool) => [tool.name, tool]));
+
+/**
+ * Get a registered tool by name
+ */
+export function getTool(name: string): RegisteredTool | undefined {
+  return toolsByName.get(name);
+}
+
+/**
+ * MCP tool definitions, with input schemas generated from the zod schemas
+ */
+export function listToolDefinitions(): Tool[] {
+  return TOOL_REGISTRY.map((tool) => {
+    const inputSchema = toInputSchema(tool.schema);
+    return {
+      name: tool.name,
+      description: tool.description,
+      inputSchema: takesAgentArgument(tool)
+        ? inputSchema
+        : { ...inputSchema, properties: { ...inputSchema.properties, agent: AGENT_SELECTOR } },
+    };
+  });
+}
+
+// Every tool can act as any agent identity the session may use (resolved by selectAgent)
+const AGENT_SELECTOR = {
+  type: 'string',
+  description: "Agent identity name or wallet address to act as (default: the session's agent identity)",
+};
+
+/**
+ * Resolve a tool call's agent argument to an identity and drop it from the arguments
+ *
+ * Tools that take an agent wallet argument of their own (list_escrows)
+ * are only switched by identity names; wallet addresses stay their
+ * argument.
+ *
+ * @param bound - Identity the session is bound to, if any
+ * @throws X402Error - UnknownAgent, AgentNotPermitted
+ */
+export function selectAgent(
+  name: string,
+  args: unknown,
+  identities: AgentIdentities,
+  bound?: AgentIdentity
+): { agent: AgentIdentity; args: unknown } {
+  const { agent: selector, ...rest } = (args ?? {}) as Record<string, unknown>;
+  const tool = getTool(name);
+
+  if (selector === undefined || selector === '') {
+    return { agent: identities.select(undefined, bound), args: rest };
+  }
+  if (tool && takesAgentArgument(tool) && !identities.get(String(selector))) {
+    return { agent: identities.select(undefined, bound), args };
+  }
+
+  return { agent: identities.select(String(selector), bound), args: rest };
+}
+
+function takesAgentArgument(tool: RegisteredTool): boolean {
+  return tool.schema instanceof z.ZodObject && 'agent' in tool.schema.shape;
+}
+
+/**
+ * Validate and coerce arguments against a tool's schema
+ */
+export function validateToolArguments<P>(
+  tool: RegisteredTool<P>,
+  args: unknown
+): { success: true; params: P } | (ToolFailure & { validationErrors: ValidationIssue[] }) {
+  const parsed = tool.schema.safeParse(args ?? {});
+
+  if (parsed.success) {
+    // Required fields were enforced at runtime even though the inferred type marks them optional
+    return { success: true, params: parsed.data as P };
+  }
+
+  const validationErrors = parsed.error.issues.map((issue) => ({
+    field: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+    message: issue.message,
+    code: issue.code,
+  }));
+
+  return {
+    ...failure(
+      'ValidationError',
+      `Invalid arguments for ${tool.name}: ${validationErrors.map((e) => `${e.field}: ${e.message}`).join('; ')}`
+    ),
+    validationErrors,
+  };
+}
+
+/**
+ * Validate arguments and run a tool
+ *
+ * @returns The handler's result, or a failed result naming the bad fields
+ */
+export async function callTool(name: string, args: unknown, context: ToolContext): Promise<any> {
+  const tool = getTool(name);
+  if (!tool) {
+    return failure('ValidationError', `Unknown tool: ${name}`);
+  }
+
+  const validated = validateToolArguments(tool, args);
+  if (!validated.success) {
+    return validated;
+  }
+
+  let params = validated.params;
+  if (context.dryRun && tool.simulates) {
+    params = { ...params, dryRun: true };
+  }
+
+  // Simulations move no funds, so they don't wait for approval
+  const { approvals } = context.policy;
+  if (tool.stake && !params.dryRun && approvals.gates(tool.name)) {
+    const stake = await tool.stake(params, context);
+    if (stake && approvals.requiresApproval(tool.name, stake)) {
+      return requestApproval(tool, params, stake, context);
+    }
+  }
+
+  return tool.handler(params, context);
+}
+
+/**
+ * Park an action above the approval threshold, asking the human right
+ * away if the client supports elicitation
+ */
+async function requestApproval<P>(
+  tool: RegisteredTool<P>,
+  params: P,
+  stake: Stake,
+  context: ToolContext
+): Promise<any> {
+  const { approvals } = context.policy;
+  const action = approvals.park(tool.name, params as Record<string, any>, stake);
+  const summary = `${tool.name} with ${stake.amount} ${stake.currency} at stake${
+    stake.transactionId ? ` (escrow ${stake.transactionId})` : ''
+  }`;
+
+  const approved = approvals.useElicitation && context.confirm ? await context.confirm(`Approve ${summary}?`) : undefined;
+
+  if (approved === true) {
+    approvals.resolve(action.id, 'approved', 'Approved in client');
+    return tool.handler(params, context);
+  }
+
+  if (approved === false) {
+    approvals.resolve(action.id, 'rejected', 'Rejected in client');
+    return failure('ActionRejected', `${summary} was rejected`, { actionId: action.id });
+  }
+
+  return failure(
+    'ApprovalRequired',
+    `${summary} needs human approval. Pending action ${action.id} expires at ${new Date(
+      action.expiresAt * 1000
+    ).toISOString()}.`,
+    { actionId: action.id, expiresAt: action.expiresAt }
+  );
+}
+
+function toInputSchema(schema: z.ZodTypeAny): Tool['inputSchema'] {
+  // Unknown arguments are stripped rather than rejected, so don't advertise additionalProperties: false
+  const { $schema: _, additionalProperties: __, ...jsonSchema } = zodToJsonSchema(schema, {
+    $refStrategy: 'none',
+  }) as Record<string, any>;
+  return { ...jsonSchema, type: 'object' };
+}
@@ -0,0 +1,339 @@
+import { PublicKey } from '@solana/web3.js';
+import { EscrowAccount, X402Program } from '../solana/anchor.js';
+import { lamportsToSol, parseEscrowStatus } from '../solana/transactions.js';
+import { Ledger, LedgerEntry } from '../ledger/index.js';
+import { toolError, ToolErrorFields } from '../errors.js';
+
+export type ReportInterval = 'day' | 'week' | 'month';
+
+export interface SpendingReportParams {
+  apiProvider?: string; // Only escrows paying this provider
+  from?: number; // Created at or after (Unix timestamp)
+  to?: number; // Created before (Unix timestamp)
+  interval?: ReportInterval; // Also split rows by period (default: whole window)
+  format?: 'json' | 'csv'; // csv adds the report as CSV text (default: json)
+}
+
+/**
+ * Aggregates for one provider and currency (and period, with an interval)
+ *
+ * Amounts are in SOL. A dispute counts as won when the
+ * resolution refunded anything.
+ */
+export interface SpendingReportRow {
+  period?: string; // e.g. 2025-01 (month), 2025-01-31 (day), week starting 2025-01-27 (week)
+  provider: string; // Provider wallet address, or 'TOTAL'
+  currency: string;
+  escrows: number;
+  escrowed: number; // Total amount put into escrow
+  locked: number; // Still held in Active escrows
+  disputedPending: number; // Held in Disputed escrows awaiting resolution
+  released: number; // Paid to the provider without a dispute
+  paidAfterDispute: number; // Paid to the provider by dispute resolutions
+  refunded: number; // Returned to the agent by dispute resolutions
+  averageQualityScore?: number; // 0-100, over escrows with an assessment
+  disputes: number; // Escrows that were disputed
+  disputesResolved: number;
+  disputesWon: number; // Resolved with a refund
+  disputeWinRate?: number; // disputesWon / disputesResolved (0-1)
+}
+
+export interface SpendingReportResult extends ToolErrorFields {
+  success: boolean;
+  agent?: string;
+  from?: number;
+  to?: number;
+  generatedAt?: number; // Unix timestamp
+  rows?: SpendingReportRow[]; // Per provider, then one TOTAL row per currency (and period)
+  csv?: string; // Set when format is csv
+}
+
+/**
+ * Outcome of one escrow, from ledger and chain data
+ */
+interface EscrowOutcome {
+  provider: string;
+  currency: string;
+  createdAt: number;
+  amount: number;
+  status: 'Active' | 'Disputed' | 'Resolved' | 'Released';
+  disputed: boolean;
+  refunded: number;
+  paid: number;
+  qualityScore?: number;
+}
+
+const CSV_COLUMNS: Array<keyof SpendingReportRow> = [
+  'period',
+  'provider',
+  'currency',
+  'escrows',
+  'escrowed',
+  'locked',
+  'disputedPending',
+  'released',
+  'paidAfterDispute',
+  'refunded',
+  'averageQualityScore',
+  'disputes',
+  'disputesResolved',
+  'disputesWon',
+  'disputeWinRate',
+];
+
+/**
+ * Report what the agent paid each provider and what came back
+ *
+ * Combines the local ledger with on-chain escrow accounts. Escrows that
+ * are settled and closed get their outcome from the ledger, or from the
+ * decoded DisputeResolved/FundsReleased events if the ledger lacks it.
+ */
+export async function spendingReport(
+  params: SpendingReportParams,
+  program: X402Program,
+  ledger: Ledger
+): Promise<SpendingReportResult> {
+  try {
+    const agent = program.program.provider.publicKey!;
+    const inWindow = (createdAt: number) =>
+      (params.from === undefined || createdAt >= params.from) && (params.to === undefined || createdAt < params.to);
+    const forProvider = (provider: string) => !params.apiProvider || provider === params.apiProvider;
+
+    const accounts = new Map<string, EscrowAccount>();
+    for (const { account } of await program.listEscrows({
+      agent,
+      api: params.apiProvider ? new PublicKey(params.apiProvider) : undefined,
+    })) {
+      accounts.set(account.transactionId, account);
+    }
+
+    const outcomes: EscrowOutcome[] = [];
+
+    const { entries } = ledger.query({ agent: agent.toBase58(), provider: params.apiProvider });
+    for (const entry of entries.filter((e) => inWindow(e.createdAt))) {
+      outcomes.push(await outcomeOf(entry, accounts.get(entry.transactionId), program));
+      accounts.delete(entry.transactionId);
+    }
+
+    // Open escrows the ledger doesn't know
+    for (const account of accounts.values()) {
+      const createdAt = Number(account.createdAt);
+      if (inWindow(createdAt) && forProvider(account.api.toBase58())) {
+        outcomes.push(await accountOutcome(account, program));
+      }
+    }
+
+    const rows = aggregate(outcomes, params.interval);
+
+    return {
+      success: true,
+      agent: agent.toBase58(),
+      from: params.from,
+      to: params.to,
+      generatedAt: Math.floor(Date.now() / 1000),
+      rows,
+      csv: params.format === 'csv' ? toCsv(rows) : undefined,
+    };
+  } catch (error: any) {
+    return toolError(error, 'Failed to build spending report');
+  }
+}
+
+/**
+ * Render report rows as CSV (header row first)
+ */
+export function toCsv(rows: SpendingReportRow[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map((column) => csvField(row[column])).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+async function outcomeOf(
+  entry: LedgerEntry,
+  account: EscrowAccount | undefined,
+  program: X402Program
+): Promise<EscrowOutcome> {
+  const outcome: EscrowOutcome = {
+    provider: entry.provider,
+    currency: entry.currency,
+    createdAt: entry.createdAt,
+    amount: entry.amount,
+    status: account ? parseEscrowStatus(account.status) : entry.status,
+    disputed: !!entry.dispute || entry.status === 'Disputed' || entry.status === 'Resolved',
+    refunded: 0,
+    paid: 0,
+    qualityScore: entry.resolution?.qualityScore ?? entry.assessment?.qualityScore,
+  };
+
+  if (account?.qualityScore != null) {
+    outcome.qualityScore = account.qualityScore;
+  }
+
+  // The account is gone once settled; the ledger may not have seen how
+  if (!account && (outcome.status === 'Active' || outcome.status === 'Disputed')) {
+    await applyHistory(outcome, entry.transactionId, program);
+  } else if (outcome.status === 'Resolved') {
+    if (entry.resolution?.refundAmount !== undefined) {
+      outcome.refunded = entry.resolution.refundAmount;
+      outcome.paid = entry.resolution.paymentAmount ?? outcome.amount - outcome.refunded;
+    } else if (account?.refundPercentage != null) {
+      outcome.refunded = (outcome.amount * account.refundPercentage) / 100;
+      outcome.paid = outcome.amount - outcome.refunded;
+    } else {
+      await applyHistory(outcome, entry.transactionId, program);
+    }
+  } else if (outcome.status === 'Released') {
+    outcome.paid = outcome.amount;
+  }
+
+  outcome.disputed = outcome.disputed || outcome.status === 'Disputed' || outcome.status === 'Resolved';
+  return outcome;
+}
+
+async function accountOutcome(account: EscrowAccount, program: X402Program): Promise<EscrowOutcome> {
+  const amount = lamportsToSol(Number(account.amount));
+  const status = parseEscrowStatus(account.status);
+  const refunded = status === 'Resolved' && account.refundPercentage != null ? (amount * account.refundPercentage) / 100 : 0;
+
+  return {
+    provider: account.api.toBase58(),
+    currency: 'SOL',
+    createdAt: Number(account.createdAt),
+    amount,
+    status,
+    disputed: status === 'Disputed' || status === 'Resolved',
+    refunded,
+    paid: status === 'Released' ? amount : status === 'Resolved' ? amount - refunded : 0,
+    qualityScore: account.qualityScore ?? undefined,
+  };
+}
+
+/**
+ * Settle an outcome from the escrow's decoded events
+ */
+async function applyHistory(outcome: EscrowOutcome, transactionId: string, program: X402Program): Promise<void> {
+  const [escrowPDA] = program.pda.deriveEscrowPDA(transactionId);
+  const history = await program.events.getAccountHistory(escrowPDA);
+
+  for (const tx of history) {
+    if (tx.failed) continue;
+
+    for (const event of tx.events) {
+      if (!event.data.escrow.equals(escrowPDA)) continue;
+
+      if (event.name === 'DisputeMarked') {
+        outcome.status = 'Disputed';
+        outcome.disputed = true;
+      } else if (event.name === 'FundsReleased') {
+        outcome.status = 'Released';
+        outcome.paid = outcome.amount;
+      } else if (event.name === 'DisputeResolved') {
+        // Event amounts are lamports; scale the split onto the SOL amount
+        const refund = Number(event.data.refundAmount);
+        const total = refund + Number(event.data.paymentAmount);
+        outcome.status = 'Resolved';
+        outcome.disputed = true;
+        outcome.refunded = total > 0 ? (outcome.amount * refund) / total : 0;
+        outcome.paid = outcome.amount - outcome.refunded;
+        outcome.qualityScore = event.data.qualityScore;
+      }
+    }
+  }
+}
+
+function aggregate(outcomes: EscrowOutcome[], interval?: ReportInterval): SpendingReportRow[] {
+  const rows = new Map<string, SpendingReportRow & { qualityScores: number[] }>();
+
+  const add = (key: Pick<SpendingReportRow, 'period' | 'provider' | 'currency'>, outcome: EscrowOutcome) => {
+    const id = `${key.period ?? ''}|${key.provider}|${key.currency}`;
+    let row = rows.get(id);
+    if (!row) {
+      row = {
+        ...key,
+        escrows: 0,
+        escrowed: 0,
+        locked: 0,
+        disputedPending: 0,
+        released: 0,
+        paidAfterDispute: 0,
+        refunded: 0,
+        disputes: 0,
+        disputesResolved: 0,
+        disputesWon: 0,
+        qualityScores: [],
+      };
+      rows.set(id, row);
+    }
+
+    row.escrows++;
+    row.escrowed += outcome.amount;
+    if (outcome.status === 'Active') row.locked += outcome.amount;
+    if (outcome.status === 'Disputed') row.disputedPending += outcome.amount;
+    if (outcome.status === 'Released') row.released += outcome.paid;
+    if (outcome.status === 'Resolved') {
+      row.paidAfterDispute += outcome.paid;
+      row.refunded += outcome.refunded;
+      row.disputesResolved++;
+      if (outcome.refunded > 0) row.disputesWon++;
+    }
+    if (outcome.disputed) row.disputes++;
+    if (outcome.qualityScore !== undefined) row.qualityScores.push(outcome.qualityScore);
+  };
+
+  for (const outcome of outcomes) {
+    const period = interval ? periodOf(outcome.createdAt, interval) : undefined;
+    add({ period, provider: outcome.provider, currency: outcome.currency }, outcome);
+    add({ period, provider: 'TOTAL', currency: outcome.currency }, outcome);
+  }
+
+  return Array.from(rows.values())
+    .map(({ qualityScores, ...row }) => ({
+      ...row,
+      escrowed: round(row.escrowed),
+      locked: round(row.locked),
+      disputedPending: round(row.disputedPending),
+      released: round(row.released),
+      paidAfterDispute: round(row.paidAfterDispute),
+      refunded: round(row.refunded),
+      averageQualityScore:
+        qualityScores.length > 0
+          ? Math.round((qualityScores.reduce((a, b) => a + b, 0) / qualityScores.length) * 10) / 10
+          : undefined,
+      disputeWinRate:
+        row.disputesResolved > 0 ? Math.round((row.disputesWon / row.disputesResolved) * 1000) / 1000 : undefined,
+    }))
+    .sort(
+      (a, b) =>
+        (a.period ?? '').localeCompare(b.period ?? '') ||
+        a.currency.localeCompare(b.currency) ||
+        Number(a.provider === 'TOTAL') - Number(b.provider === 'TOTAL') ||
+        b.escrowed - a.escrowed
+    );
+}
+
+// Periods are in UTC; weeks start on Monday
+function periodOf(timestamp: number, interval: ReportInterval): string {
+  const date = new Date(timestamp * 1000);
+  if (interval === 'month') {
+    return date.toISOString().slice(0, 7);
+  }
+  if (interval === 'week') {
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Avoid float noise like 0.30000000000000004 in totals
+function round(value: number): number {
+  return Math.round(value * 1e9) / 1e9;
+}
@@ -1,11 +1,12 @@
 import { PublicKey } from '@solana/web3.js';
 import { X402Program } from '../solana/anchor.js';
+import { toolError, ToolErrorFields } from '../errors.js';
 
 export interface GetApiReputationParams {
   apiProvider: string; // API provider wallet address
 }
 
-export interface GetApiReputationResult {
+export interface GetApiReputationResult extends ToolErrorFields {
   success: boolean;
   reputationScore?: number; // 0-1000
   totalTransactions?: number;
@@ -16,7 +17,6 @@ export interface GetApiReputationResult {
   averageQualityReceived?: number; // 0-100
   recommendation?: 'trusted' | 'caution' | 'avoid';
   lastUpdated?: number; // Unix timestamp
-  error?: string;
 }
 
 /**
@@ -102,10 +102,7 @@ export async function getApiReputation(
       lastUpdated,
     };
   } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Failed to fetch API reputation',
-    };
+    return toolError(error, 'Failed to fetch API reputation');
   }
 }
 
@@ -143,9 +140,6 @@ export async function initializeReputation(
       signature: result.signature,
     };
   } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Failed to initialize reputation',
-    };
+    return toolError(error, 'Failed to initialize reputation');
   }
 }
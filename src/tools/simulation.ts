@@ -0,0 +1,66 @@
+import { PublicKey } from '@solana/web3.js';
+import { SimulationResult } from '../solana/anchor.js';
+import { lamportsToSol } from '../solana/transactions.js';
+import { toolError, ToolErrorFields } from '../errors.js';
+
+/**
+ * What a dry run would have sent
+ */
+export interface SimulationSummary {
+  computeUnits?: number;
+  fee?: number; // Base fee in SOL (unset if the RPC couldn't price it)
+  priorityFee?: number; // Priority fee in SOL at the current price
+  logs: string[]; // Program log messages
+  events: Array<{ name: string; data: Record<string, any> }>; // Decoded program events (amounts in base units)
+}
+
+/**
+ * Fields state-changing tools add for dry runs
+ */
+export interface DryRunFields {
+  dryRun?: boolean; // Set when nothing was sent
+  simulation?: SimulationSummary;
+}
+
+/**
+ * Tool result for a simulated transaction
+ *
+ * Succeeds if the transaction would, and otherwise fails with the
+ * decoded error (program errors by IDL name), like a sent transaction.
+ */
+export function simulated(
+  simulation: SimulationResult,
+  fallbackMessage: string,
+  messages: Record<string, string> = {}
+): { success: boolean } & ToolErrorFields & DryRunFields {
+  const fields: DryRunFields = {
+    dryRun: true,
+    simulation: {
+      computeUnits: simulation.unitsConsumed,
+      fee: simulation.fee !== undefined ? lamportsToSol(simulation.fee) : undefined,
+      priorityFee: simulation.priorityFee !== undefined ? lamportsToSol(simulation.priorityFee) : undefined,
+      logs: simulation.logs,
+      events: simulation.events.map((event) => ({ name: event.name, data: plain(event.data) })),
+    },
+  };
+
+  if (simulation.success) {
+    return { success: true, ...fields };
+  }
+  return { ...toolError(simulation.error, fallbackMessage, messages), ...fields };
+}
+
+// Event data holds PublicKeys and bigints, which don't serialize to JSON
+function plain(data: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (value instanceof PublicKey) {
+      result[key] = value.toBase58();
+    } else if (typeof value === 'bigint') {
+      result[key] = value.toString();
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
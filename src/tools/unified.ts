@@ -1,45 +1,68 @@
 import { X402Program } from '../solana/anchor.js';
-import { createEscrow, CreateEscrowParams } from './escrow.js';
+import { createEscrow, CreateEscrowParams, releaseFunds } from './escrow.js';
 import { assessDataQuality } from './quality.js';
 import { fileDispute } from './dispute.js';
 import { getApiReputation } from './reputation.js';
+import { getProviderPenalties } from './limits.js';
+import { failure, toolError, ToolErrorFields, wrapFailure } from '../errors.js';
+import { Ledger } from '../ledger/index.js';
+import { PolicySet } from '../policy/index.js';
+import { DryRunFields } from './simulation.js';
 
 export interface CallApiWithEscrowParams {
   apiUrl: string; // API endpoint to call
   apiProvider: string; // API provider wallet address
   amount: number; // Payment amount in SOL
   expectedCriteria?: string[]; // Expected fields in response
-  timeLock?: number; // Escrow expiry in seconds
-  autoDispute?: boolean; // Automatically file dispute if quality is low (default: false)
-  qualityThreshold?: number; // Quality score threshold for auto-dispute (default: 50)
+  timeLock?: number; // Escrow expiry in seconds (default: provider's trust tier, else 3600)
+  autoDispute?: boolean; // Automatically file dispute if quality is low (default: true)
+  qualityThreshold?: number; // Quality score threshold for auto-dispute (default: provider's trust tier, else 50)
+  autoRelease?: boolean; // Release funds to the API if quality clears the threshold (default: false)
+  dryRun?: boolean; // Run the checks and simulate the escrow, without paying or calling the API (default: false)
 }
 
-export interface CallApiWithEscrowResult {
+export interface CallApiWithEscrowResult extends ToolErrorFields, DryRunFields {
   success: boolean;
   escrowAddress?: string;
   transactionId?: string;
+  amount?: number; // In SOL
+  currency?: string;
   apiResponse?: any;
   qualityScore?: number;
   refundPercentage?: number;
   disputeFiled?: boolean;
-  finalStatus?: 'completed' | 'disputed' | 'failed';
+  fundsReleased?: boolean;
+  finalStatus?: 'completed' | 'released' | 'disputed' | 'failed' | 'simulated';
   signature?: string;
-  error?: string;
 }
 
 /**
- * Unified workflow: Create escrow -> Call API -> Assess quality -> Dispute if needed
+ * Unified workflow: Create escrow -> Call API -> Assess quality -> Dispute or release
  *
  * This is the main end-to-end tool that agents should use for making
  * protected API calls with automatic quality assessment and dispute filing.
+ *
+ * @param policy - Trust and spending policies enforced before paying (optional)
+ * @param ledger - Records each step as it happens, so a crash mid-workflow loses nothing (optional)
  */
 export async function callApiWithEscrow(
   params: CallApiWithEscrowParams,
-  program: X402Program
+  program: X402Program,
+  policy?: PolicySet,
+  ledger?: Ledger
 ): Promise<CallApiWithEscrowResult> {
   try {
+    // Refuse providers and hosts the trust policy doesn't allow, or URLs bound to another wallet
+    const trust = policy?.trust.evaluate({ provider: params.apiProvider, apiUrl: params.apiUrl });
+    if (trust && !trust.allowed) {
+      return {
+        ...failure('ProviderNotAllowed', trust.reason, { rule: trust.rule }),
+        finalStatus: 'failed',
+      };
+    }
+
     // Step 1: Check API provider reputation
-    console.log('Checking API provider reputation...');
+    console.error('Checking API provider reputation...');
     const reputationResult = await getApiReputation(
       { apiProvider: params.apiProvider },
       program
@@ -47,35 +70,67 @@ export async function callApiWithEscrow(
 
     if (reputationResult.success && reputationResult.recommendation === 'avoid') {
       return {
-        success: false,
-        error: `API provider has poor reputation (score: ${reputationResult.reputationScore}/1000). Transaction not recommended.`,
+        ...failure(
+          'ReputationTooLow',
+          `API provider has poor reputation (score: ${reputationResult.reputationScore}/1000). Transaction not recommended.`
+        ),
+        finalStatus: 'failed',
+      };
+    }
+
+    // Suspended providers are rejected on-chain, so don't lock funds for them
+    const penaltiesResult = await getProviderPenalties({ apiProvider: params.apiProvider }, program);
+
+    if (penaltiesResult.success && penaltiesResult.suspended) {
+      const until = penaltiesResult.suspensionEnd
+        ? ` until ${new Date(penaltiesResult.suspensionEnd * 1000).toISOString()}`
+        : '';
+      return {
+        ...failure(
+          'ProviderSuspended',
+          `API provider is suspended${until} (${penaltiesResult.strikeCount} strikes). Transaction not possible.`
+        ),
         finalStatus: 'failed',
       };
     }
 
     // Step 2: Create escrow
-    console.log('Creating escrow...');
+    console.error('Creating escrow...');
     const escrowParams: CreateEscrowParams = {
       api: params.apiProvider,
       amount: params.amount,
       timeLock: params.timeLock,
+      dryRun: params.dryRun,
     };
 
-    const escrowResult = await createEscrow(escrowParams, program);
+    const escrowResult = await createEscrow(escrowParams, program, policy, ledger);
+
+    // Without a real escrow there's nothing to pay the API with
+    if (params.dryRun) {
+      return {
+        ...(escrowResult.success ? { success: true } : wrapFailure(escrowResult, 'Escrow creation would fail')),
+        escrowAddress: escrowResult.escrowAddress,
+        transactionId: escrowResult.transactionId,
+        amount: escrowResult.amount,
+        currency: escrowResult.currency,
+        dryRun: true,
+        simulation: escrowResult.simulation,
+        finalStatus: escrowResult.success ? 'simulated' : 'failed',
+      };
+    }
 
     if (!escrowResult.success) {
       return {
-        success: false,
-        error: `Failed to create escrow: ${escrowResult.error}`,
+        ...wrapFailure(escrowResult, 'Failed to create escrow'),
         finalStatus: 'failed',
       };
     }
 
-    console.log(`Escrow created: ${escrowResult.escrowAddress}`);
-    console.log(`Transaction ID: ${escrowResult.transactionId}`);
+    console.error(`Escrow created: ${escrowResult.escrowAddress}`);
+    console.error(`Transaction ID: ${escrowResult.transactionId}`);
 
     // Step 3: Call API with payment proof
-    console.log(`Calling API: ${params.apiUrl}`);
+    console.error(`Calling API: ${params.apiUrl}`);
     let apiResponse: any;
 
     try {
@@ -89,19 +144,32 @@ export async function callApiWithEscrow(
       });
 
       apiResponse = await response.json();
-      console.log('API response received');
+      console.error('API response received');
+      ledger?.record({
+        type: 'api_call',
+        transactionId: escrowResult.transactionId!,
+        apiUrl: params.apiUrl,
+        ok: response.ok,
+        response: apiResponse,
+      });
     } catch (error: any) {
+      ledger?.record({
+        type: 'api_call',
+        transactionId: escrowResult.transactionId!,
+        apiUrl: params.apiUrl,
+        ok: false,
+        error: error.message,
+      });
       return {
-        success: false,
+        ...failure('ApiCallFailed', `API call failed: ${error.message}`),
         escrowAddress: escrowResult.escrowAddress,
         transactionId: escrowResult.transactionId,
-        error: `API call failed: ${error.message}`,
         finalStatus: 'failed',
       };
     }
 
     // Step 4: Assess data quality
-    console.log('Assessing data quality...');
+    console.error('Assessing data quality...');
     const qualityResult = await assessDataQuality({
       apiResponse,
       expectedCriteria: params.expectedCriteria || [],
@@ -109,26 +177,34 @@ export async function callApiWithEscrow(
 
     if (!qualityResult.success) {
       return {
-        success: false,
+        ...wrapFailure(qualityResult, 'Quality assessment failed'),
         escrowAddress: escrowResult.escrowAddress,
         transactionId: escrowResult.transactionId,
         apiResponse,
-        error: `Quality assessment failed: ${qualityResult.error}`,
         finalStatus: 'failed',
       };
     }
 
-    console.log(`Quality score: ${qualityResult.qualityScore}/100`);
-    console.log(`Refund percentage: ${qualityResult.refundPercentage}%`);
-    console.log(`Rationale: ${qualityResult.rationale}`);
+    ledger?.record({
+      type: 'assessment',
+      transactionId: escrowResult.transactionId!,
+      qualityScore: qualityResult.qualityScore!,
+      refundPercentage: qualityResult.refundPercentage!,
+      expectedCriteria: params.expectedCriteria,
+      rationale: qualityResult.rationale,
+    });
+
+    console.error(`Quality score: ${qualityResult.qualityScore}/100`);
+    console.error(`Refund percentage: ${qualityResult.refundPercentage}%`);
+    console.error(`Rationale: ${qualityResult.rationale}`);
 
     // Step 5: Auto-dispute if quality is below threshold
     const autoDispute = params.autoDispute !== false; // Default true
-    const qualityThreshold = params.qualityThreshold || 50;
+    const qualityThreshold = params.qualityThreshold ?? trust?.defaults.qualityThreshold ?? 50;
     let disputeFiled = false;
 
     if (autoDispute && qualityResult.qualityScore! < qualityThreshold) {
-      console.log(
+      console.error(
         `Quality score (${qualityResult.qualityScore}) below threshold (${qualityThreshold}). Filing dispute...`
       );
 
@@ -144,33 +220,58 @@ export async function callApiWithEscrow(
             timestamp: Date.now(),
           },
         },
-        program
+        program,
+        ledger
       );
 
       if (disputeResult.success) {
-        console.log('Dispute filed successfully');
+        console.error('Dispute filed successfully');
         disputeFiled = true;
       } else {
         console.error(`Failed to file dispute: ${disputeResult.error}`);
       }
     }
 
+    // Step 6: Auto-release if quality clears the threshold
+    let fundsReleased = false;
+
+    if (params.autoRelease && qualityResult.qualityScore! >= qualityThreshold) {
+      console.error(
+        `Quality score (${qualityResult.qualityScore}) meets threshold (${qualityThreshold}). Releasing funds...`
+      );
+
+      const releaseResult = await releaseFunds(
+        { transactionId: escrowResult.transactionId! },
+        program,
+        ledger
+      );
+
+      if (releaseResult.success) {
+        console.error('Funds released successfully');
+        fundsReleased = true;
+      } else {
+        console.error(`Failed to release funds: ${releaseResult.error}`);
+      }
+    }
+
     // Return complete results
     return {
       success: true,
       escrowAddress: escrowResult.escrowAddress,
       transactionId: escrowResult.transactionId,
+      amount: escrowResult.amount,
+      currency: escrowResult.currency,
       apiResponse,
       qualityScore: qualityResult.qualityScore,
       refundPercentage: qualityResult.refundPercentage,
       disputeFiled,
-      finalStatus: disputeFiled ? 'disputed' : 'completed',
+      fundsReleased,
+      finalStatus: disputeFiled ? 'disputed' : fundsReleased ? 'released' : 'completed',
       signature: escrowResult.signature,
     };
   } catch (error: any) {
     return {
-      success: false,
-      error: error.message || 'Failed to execute API call with escrow',
+      ...toolError(error, 'Failed to execute API call with escrow'),
       finalStatus: 'failed',
     };
   }
@@ -40,19 +40,9 @@ export enum EntityType {
   Provider = 'Provider'
 }
 
-export interface CreateEscrowParams {
-  api: string;
-  amount: number;
-  timeLock?: number;
-  transactionId?: string;
-}
-
-export interface FileDisputeParams {
-  escrowAddress: string;
-  qualityScore: number;
-  evidence: Record<string, unknown>;
-  refundPercentage: number;
-}
+// Tool parameters are defined next to the tools and validated by the
+// schemas in tools/registry.ts
+export type { CreateEscrowParams, FileDisputeParams } from '../tools/index.js';
 
 export interface QualityAssessment {
   qualityScore: number;
@@ -0,0 +1,125 @@
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { X402Error } from '../errors.js';
+
+/**
+ * Dispute evidence submitted to a verifier oracle
+ */
+export interface DisputeEvidenceRequest {
+  transactionId: string;
+  escrow: PublicKey;
+  agent: PublicKey;
+  api: PublicKey;
+  amount: number; // In lamports
+  qualityScore?: number; // Agent's own assessment (0-100)
+  refundPercentage?: number; // Agent's requested refund (0-100)
+  evidence: Record<string, any>;
+}
+
+/**
+ * Signed quality attestation returned by a verifier oracle
+ */
+export interface VerifierAttestation {
+  qualityScore: number; // 0-100
+  refundPercentage: number; // 0-100
+  signature: Buffer; // Ed25519 signature (64 bytes) over "<transaction_id>:<quality_score>"
+  verifier: PublicKey;
+}
+
+/**
+ * Verifier oracle that assesses dispute evidence and signs the outcome
+ */
+export interface VerifierClient {
+  readonly name: string;
+  readonly publicKey: PublicKey; // Key the program trusts; attestations signed by any other key are rejected
+  readonly remote: boolean; // Evidence is sent off the server
+  assess(request: DisputeEvidenceRequest): Promise<VerifierAttestation>;
+}
+
+export interface HttpVerifierClientOptions {
+  url: string; // Verifier base URL
+  publicKey: PublicKey; // Expected verifier key (VERIFIER_PUBKEY)
+  path?: string; // Assessment endpoint (default: /verify-quality)
+  apiKey?: string; // Sent as a bearer token if set
+  timeoutMs?: number; // Request timeout (default: 30000)
+}
+
+/**
+ * Verifier oracle reached over HTTP
+ *
+ * Posts the evidence as JSON and expects quality_score, refund_percentage,
+ * signature (hex or base58) and optionally verifier_pubkey in the
+ * response. The verifier key is pinned in the options: a response naming
+ * another key is rejected, as the service can't vouch for its own key.
+ */
+export class HttpVerifierClient implements VerifierClient {
+  public readonly name = 'http';
+  public readonly remote = true;
+  public readonly publicKey: PublicKey;
+  private endpoint: string;
+
+  constructor(private options: HttpVerifierClientOptions) {
+    this.endpoint = new URL(options.path || '/verify-quality', options.url).toString();
+    this.publicKey = options.publicKey;
+  }
+
+  async assess(request: DisputeEvidenceRequest): Promise<VerifierAttestation> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.apiKey) {
+      headers['Authorization'] = `Bearer ${this.options.apiKey}`;
+    }
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        transaction_id: request.transactionId,
+        escrow: request.escrow.toBase58(),
+        agent: request.agent.toBase58(),
+        api: request.api.toBase58(),
+        amount: request.amount,
+        quality_score: request.qualityScore,
+        refund_percentage: request.refundPercentage,
+        original_query: request.evidence.apiUrl,
+        data_received: request.evidence.apiResponse,
+        expected_criteria: request.evidence.expectedCriteria,
+        evidence: request.evidence,
+      }),
+      signal: AbortSignal.timeout(this.options.timeoutMs || 30_000),
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new X402Error('VerifierError', `Verifier returned HTTP ${response.status}${text ? `: ${text}` : ''}`);
+    }
+
+    const body: any = await response.json();
+
+    if (typeof body.quality_score !== 'number' || typeof body.refund_percentage !== 'number') {
+      throw new X402Error('VerifierError', 'Verifier response is missing quality_score or refund_percentage');
+    }
+    if (!body.signature) {
+      throw new X402Error('VerifierError', 'Verifier response is missing signature');
+    }
+    if (body.verifier_pubkey && body.verifier_pubkey !== this.publicKey.toBase58()) {
+      throw new X402Error(
+        'VerifierError',
+        `Verifier signed with ${body.verifier_pubkey}, expected ${this.publicKey.toBase58()} (VERIFIER_PUBKEY)`
+      );
+    }
+
+    return {
+      qualityScore: body.quality_score,
+      refundPercentage: body.refund_percentage,
+      signature: decodeSignature(body.signature),
+      verifier: this.publicKey,
+    };
+  }
+}
+
+function decodeSignature(value: string): Buffer {
+  if (/^[0-9a-fA-F]{128}$/.test(value)) {
+    return Buffer.from(value, 'hex');
+  }
+  return Buffer.from(bs58.decode(value));
+}
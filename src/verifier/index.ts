@@ -0,0 +1,10 @@
+/**
+ * Verifier oracle clients
+ *
+ * Dispute resolution requires an Ed25519 signature from a verifier oracle.
+ * Use HttpVerifierClient for a deployed verifier service and
+ * LocalVerifierClient for offline testing.
+ */
+
+export * from './client.js';
+export * from './local.js';
@@ -0,0 +1,73 @@
+import { describe, expect, it } from '@jest/globals';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { buildVerifierMessage, verifyEd25519 } from '../solana/ed25519.js';
+import { DisputeEvidenceRequest } from './client.js';
+import { LocalVerifierClient } from './local.js';
+
+function request(overrides: Partial<DisputeEvidenceRequest> = {}): DisputeEvidenceRequest {
+  return {
+    transactionId: 'tx-1',
+    escrow: PublicKey.unique(),
+    agent: PublicKey.unique(),
+    api: PublicKey.unique(),
+    amount: 1_000_000,
+    evidence: {},
+    ...overrides,
+  };
+}
+
+describe('LocalVerifierClient', () => {
+  it('signs with its keypair and stays in-process', () => {
+    const keypair = Keypair.generate();
+    const verifier = new LocalVerifierClient(keypair);
+
+    expect(verifier.publicKey.equals(keypair.publicKey)).toBe(true);
+    expect(verifier.remote).toBe(false);
+  });
+
+  it("attests the agent's assessment when there is no data to re-assess", async () => {
+    const verifier = new LocalVerifierClient();
+    const attestation = await verifier.assess(request({ qualityScore: 35, refundPercentage: 75 }));
+
+    expect(attestation.qualityScore).toBe(35);
+    expect(attestation.refundPercentage).toBe(75);
+    expect(attestation.verifier.equals(verifier.publicKey)).toBe(true);
+    expect(verifyEd25519(verifier.publicKey, buildVerifierMessage('tx-1', 35), attestation.signature)).toBe(true);
+  });
+
+  it('re-assesses the API response instead of trusting the agent', async () => {
+    const verifier = new LocalVerifierClient();
+    const attestation = await verifier.assess(
+      request({
+        qualityScore: 0,
+        refundPercentage: 100,
+        evidence: {
+          apiResponse: { price: 101.5, symbol: 'SOL', timestamp: new Date().toISOString() },
+          expectedCriteria: ['price', 'symbol'],
+        },
+      })
+    );
+
+    expect(attestation.qualityScore).toBeGreaterThan(0);
+    expect(attestation.refundPercentage).toBeLessThan(100);
+    expect(
+      verifyEd25519(verifier.publicKey, buildVerifierMessage('tx-1', attestation.qualityScore), attestation.signature)
+    ).toBe(true);
+  });
+
+  it('signatures only verify against the verifier key', async () => {
+    const verifier = new LocalVerifierClient();
+    const attestation = await verifier.assess(request({ qualityScore: 80, refundPercentage: 0 }));
+
+    expect(verifyEd25519(Keypair.generate().publicKey, buildVerifierMessage('tx-1', 80), attestation.signature)).toBe(
+      false
+    );
+    expect(verifyEd25519(verifier.publicKey, buildVerifierMessage('tx-2', 80), attestation.signature)).toBe(false);
+  });
+
+  it('needs an API response or an assessment', async () => {
+    const verifier = new LocalVerifierClient();
+
+    await expect(verifier.assess(request())).rejects.toMatchObject({ code: 'ValidationError' });
+  });
+});
@@ -0,0 +1,65 @@
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { X402Error } from '../errors.js';
+import { buildVerifierMessage, signEd25519 } from '../solana/ed25519.js';
+import { assessDataQuality } from '../tools/quality.js';
+import { DisputeEvidenceRequest, VerifierAttestation, VerifierClient } from './client.js';
+
+/**
+ * In-process verifier oracle stand-in
+ *
+ * Re-runs the off-chain quality assessment on the evidence and signs the
+ * result with a local keypair. Useful for testing the full dispute flow
+ * offline; the program only accepts its signatures if the keypair is the
+ * configured on-chain verifier.
+ */
+export class LocalVerifierClient implements VerifierClient {
+  public readonly name = 'local';
+  public readonly remote = false;
+  public readonly keypair: Keypair;
+
+  constructor(keypair?: Keypair) {
+    this.keypair = keypair || Keypair.generate();
+  }
+
+  get publicKey(): PublicKey {
+    return this.keypair.publicKey;
+  }
+
+  async assess(request: DisputeEvidenceRequest): Promise<VerifierAttestation> {
+    let qualityScore: number;
+    let refundPercentage: number;
+
+    if (request.evidence.apiResponse && typeof request.evidence.apiResponse === 'object') {
+      // Independent assessment of the data the agent received
+      const assessment = await assessDataQuality({
+        apiResponse: request.evidence.apiResponse,
+        expectedCriteria: request.evidence.expectedCriteria || [],
+      });
+
+      if (!assessment.success) {
+        throw new X402Error('VerifierError', `Local verifier assessment failed: ${assessment.error}`);
+      }
+
+      qualityScore = assessment.qualityScore!;
+      refundPercentage = assessment.refundPercentage!;
+    } else if (request.qualityScore !== undefined && request.refundPercentage !== undefined) {
+      // No raw data to re-assess, accept the agent's assessment
+      qualityScore = request.qualityScore;
+      refundPercentage = request.refundPercentage;
+    } else {
+      throw new X402Error(
+        'ValidationError',
+        'Evidence must include apiResponse, or qualityScore and refundPercentage must be provided'
+      );
+    }
+
+    const message = buildVerifierMessage(request.transactionId, qualityScore);
+
+    return {
+      qualityScore,
+      refundPercentage,
+      signature: signEd25519(this.keypair, message),
+      verifier: this.keypair.publicKey,
+    };
+  }
+}